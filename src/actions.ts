@@ -0,0 +1,393 @@
+// ---------------------------------------------------------
+// RESULT ENVELOPE
+// ---------------------------------------------------------
+// Every worker reply carries a `status`. Successful replies add action
+// specific fields; failed ones carry an `error` message instead.
+
+export type ActionStatus = "ok" | "error" | "fail";
+
+export type OkResult<T extends object = {}> = { status: "ok" } & T;
+
+export interface ErrorResult {
+  status: "error" | "fail";
+  error: string;
+  screenshot_base64?: string;
+}
+
+/**
+ * Discriminated union over `status`. Narrow with `res.status === "ok"`
+ * before reading action specific fields.
+ */
+export type Result<T extends object = {}> = OkResult<T> | ErrorResult;
+
+// ---------------------------------------------------------
+// SHARED SHAPES
+// ---------------------------------------------------------
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Cookie {
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+  expires?: number;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: string;
+}
+
+export interface StorageState {
+  cookies?: Cookie[];
+  [key: string]: unknown;
+}
+
+// ---------------------------------------------------------
+// ACTION REGISTRY
+// ---------------------------------------------------------
+interface Spec<A extends object, R extends object = {}> {
+  args: A;
+  result: R;
+}
+
+type NoArgs = {};
+type Selector = { selector: string };
+type SelectorText = { selector: string; text: string };
+type SelectorTimeout = { selector: string; timeout?: number };
+type Url = { url: string };
+type Predicate = { result: boolean };
+type Assertion = { screenshot?: boolean };
+
+/**
+ * Maps every worker action name to its argument payload and the fields
+ * found on a successful reply.
+ */
+export interface ActionMap {
+  // Lifecycle
+  release_browser: Spec<NoArgs>;
+  stop_video: Spec<NoArgs, { video_url?: string }>;
+  stop_record: Spec<NoArgs, { record_url?: string }>;
+
+  // Files
+  save_screenshot: Spec<{ name: string; selector?: string }, { image_base64: string }>;
+  save_as_pdf: Spec<NoArgs, { pdf_base64: string }>;
+  save_page_source: Spec<NoArgs, { source_base64: string }>;
+  upload_file: Spec<{ selector: string; file_name: string; file_data: string }>;
+  execute_cdp_cmd: Spec<{ cmd: string; params: Record<string, unknown> }, { result: unknown }>;
+
+  // Navigation
+  open_url: Spec<Url>;
+  reload: Spec<{ ignore_cache: boolean; script_to_evaluate_on_load?: string }>;
+  refresh: Spec<NoArgs>;
+  go_back: Spec<NoArgs>;
+  go_forward: Spec<NoArgs>;
+  internalize_links: Spec<NoArgs>;
+  get_navigation_history: Spec<NoArgs, { history: string[] }>;
+
+  // Mouse
+  click: Spec<SelectorTimeout>;
+  click_if_visible: Spec<Selector>;
+  click_visible_elements: Spec<{ selector: string; limit: number }>;
+  click_nth_element: Spec<{ selector: string; number: number }>;
+  click_nth_visible_element: Spec<{ selector: string; number: number }>;
+  click_link: Spec<{ text: string }>;
+  click_active_element: Spec<NoArgs>;
+  mouse_click: Spec<Selector>;
+  nested_click: Spec<{ parent_selector: string; selector: string }>;
+  click_with_offset: Spec<{ selector: string; x: number; y: number; center: boolean }>;
+
+  // Keyboard & input
+  type: Spec<SelectorText & { timeout?: number }>;
+  press_keys: Spec<SelectorText>;
+  send_keys: Spec<SelectorText>;
+  set_value: Spec<SelectorText>;
+  clear: Spec<Selector>;
+  clear_input: Spec<Selector>;
+  submit: Spec<Selector>;
+  focus: Spec<Selector>;
+
+  // GUI (OS level)
+  gui_click_element: Spec<{ selector: string; timeframe: number }>;
+  gui_click_x_y: Spec<{ x: number; y: number; timeframe: number }>;
+  gui_click_captcha: Spec<NoArgs>;
+  solve_captcha: Spec<NoArgs>;
+  gui_drag_and_drop: Spec<{ drag_selector: string; drop_selector: string; timeframe: number }>;
+  gui_hover_element: Spec<Selector>;
+  gui_write: Spec<{ text: string }>;
+  gui_press_keys: Spec<{ keys: string[] }>;
+
+  // Selects
+  select_option_by_text: Spec<SelectorText>;
+  select_option_by_value: Spec<{ selector: string; value: string }>;
+  select_option_by_index: Spec<{ selector: string; index: number }>;
+
+  // Windows & tabs
+  open_new_tab: Spec<Url>;
+  open_new_window: Spec<Url>;
+  switch_to_tab: Spec<{ index: number }>;
+  switch_to_window: Spec<{ index: number }>;
+  close_active_tab: Spec<NoArgs>;
+  maximize: Spec<NoArgs>;
+  minimize: Spec<NoArgs>;
+  medimize: Spec<NoArgs>;
+  tile_windows: Spec<NoArgs>;
+
+  // Getters
+  get_text: Spec<Selector, { text: string }>;
+  get_title: Spec<NoArgs, { title: string }>;
+  get_current_url: Spec<NoArgs, { url: string }>;
+  get_page_source: Spec<NoArgs, { source: string }>;
+  get_html: Spec<{ selector?: string }, { html: string }>;
+  get_attribute: Spec<{ selector: string; attribute: string }, { value: string | null }>;
+  get_element_attributes: Spec<Selector, { attributes: Record<string, string> }>;
+  get_user_agent: Spec<NoArgs, { user_agent: string }>;
+  get_cookie_string: Spec<NoArgs, { cookie_string: string }>;
+  get_element_rect: Spec<Selector, { rect: Rect }>;
+  get_window_rect: Spec<NoArgs, { rect: Rect }>;
+  get_screen_rect: Spec<NoArgs, { rect: Rect }>;
+  is_element_visible: Spec<Selector, Predicate>;
+  is_text_visible: Spec<{ text: string }, Predicate>;
+  is_checked: Spec<Selector, Predicate>;
+  is_selected: Spec<Selector, Predicate>;
+  is_online: Spec<NoArgs, Predicate>;
+  get_performance_metrics: Spec<NoArgs, { metrics: Record<string, unknown> }>;
+
+  // Cookies & storage
+  get_all_cookies: Spec<NoArgs, { cookies: Cookie[] }>;
+  save_cookies: Spec<NoArgs, { cookies: Cookie[] }>;
+  load_cookies: Spec<{ name: string; cookies?: Cookie[] }>;
+  clear_cookies: Spec<NoArgs>;
+  get_local_storage_item: Spec<{ key: string }, { value: string | null }>;
+  set_local_storage_item: Spec<{ key: string; value: string }>;
+  get_session_storage_item: Spec<{ key: string }, { value: string | null }>;
+  set_session_storage_item: Spec<{ key: string; value: string }>;
+  get_storage_state: Spec<NoArgs, { state: StorageState }>;
+  set_storage_state: Spec<{ state: StorageState }>;
+
+  // Visuals
+  highlight: Spec<Selector>;
+  highlight_overlay: Spec<Selector>;
+  remove_element: Spec<Selector>;
+  flash: Spec<{ selector: string; duration: number }>;
+
+  // Advanced
+  get_mfa_code: Spec<{ totp_key: string }, { code: string }>;
+  enter_mfa_code: Spec<{ selector: string; totp_key: string }>;
+  grant_permissions: Spec<{ permissions: string }>;
+  execute_script: Spec<{ script: string }, { result: unknown }>;
+  evaluate: Spec<{ expression: string }, { result: unknown }>;
+  block_urls: Spec<{ patterns: string[] }>;
+
+  // Assertions
+  assert_text: Spec<{ text: string; selector: string } & Assertion>;
+  assert_exact_text: Spec<{ text: string; selector: string } & Assertion>;
+  assert_element: Spec<Selector & Assertion>;
+  assert_element_present: Spec<Selector & Assertion>;
+  assert_element_absent: Spec<Selector & Assertion>;
+  assert_element_not_visible: Spec<Selector & Assertion>;
+  assert_text_not_visible: Spec<{ text: string; selector: string } & Assertion>;
+  assert_title: Spec<{ title: string } & Assertion>;
+  assert_url: Spec<{ url: string } & Assertion>;
+  assert_attribute: Spec<{ selector: string; attribute: string; value: string } & Assertion>;
+
+  // Scrolling & waits
+  scroll_into_view: Spec<Selector>;
+  scroll_to_bottom: Spec<NoArgs>;
+  scroll_to_top: Spec<NoArgs>;
+  scroll_down: Spec<{ amount: number }>;
+  scroll_up: Spec<{ amount: number }>;
+  scroll_to_y: Spec<{ y: number }>;
+  sleep: Spec<{ seconds: number }>;
+  wait_for_element: Spec<SelectorTimeout>;
+  wait_for_text: Spec<{ text: string; selector: string; timeout?: number }>;
+  wait_for_element_present: Spec<SelectorTimeout>;
+  wait_for_element_absent: Spec<SelectorTimeout>;
+  wait_for_network_idle: Spec<NoArgs>;
+}
+
+export type ActionName = keyof ActionMap;
+export type AssertionAction = Extract<ActionName, `assert_${string}`>;
+export type ActionArgs<A extends ActionName> = ActionMap[A]["args"];
+export type ActionResult<A extends ActionName> = Result<ActionMap[A]["result"]>;
+
+// Runtime mirror of ActionMap; the Record type keeps it exhaustive
+const KNOWN_ACTIONS: Record<ActionName, true> = {
+  // Lifecycle
+  release_browser: true,
+  stop_video: true,
+  stop_record: true,
+
+  // Files
+  save_screenshot: true,
+  save_as_pdf: true,
+  save_page_source: true,
+  upload_file: true,
+  execute_cdp_cmd: true,
+
+  // Navigation
+  open_url: true,
+  reload: true,
+  refresh: true,
+  go_back: true,
+  go_forward: true,
+  internalize_links: true,
+  get_navigation_history: true,
+
+  // Mouse
+  click: true,
+  click_if_visible: true,
+  click_visible_elements: true,
+  click_nth_element: true,
+  click_nth_visible_element: true,
+  click_link: true,
+  click_active_element: true,
+  mouse_click: true,
+  nested_click: true,
+  click_with_offset: true,
+
+  // Keyboard & input
+  type: true,
+  press_keys: true,
+  send_keys: true,
+  set_value: true,
+  clear: true,
+  clear_input: true,
+  submit: true,
+  focus: true,
+
+  // GUI (OS level)
+  gui_click_element: true,
+  gui_click_x_y: true,
+  gui_click_captcha: true,
+  solve_captcha: true,
+  gui_drag_and_drop: true,
+  gui_hover_element: true,
+  gui_write: true,
+  gui_press_keys: true,
+
+  // Selects
+  select_option_by_text: true,
+  select_option_by_value: true,
+  select_option_by_index: true,
+
+  // Windows & tabs
+  open_new_tab: true,
+  open_new_window: true,
+  switch_to_tab: true,
+  switch_to_window: true,
+  close_active_tab: true,
+  maximize: true,
+  minimize: true,
+  medimize: true,
+  tile_windows: true,
+
+  // Getters
+  get_text: true,
+  get_title: true,
+  get_current_url: true,
+  get_page_source: true,
+  get_html: true,
+  get_attribute: true,
+  get_element_attributes: true,
+  get_user_agent: true,
+  get_cookie_string: true,
+  get_element_rect: true,
+  get_window_rect: true,
+  get_screen_rect: true,
+  is_element_visible: true,
+  is_text_visible: true,
+  is_checked: true,
+  is_selected: true,
+  is_online: true,
+  get_performance_metrics: true,
+
+  // Cookies & storage
+  get_all_cookies: true,
+  save_cookies: true,
+  load_cookies: true,
+  clear_cookies: true,
+  get_local_storage_item: true,
+  set_local_storage_item: true,
+  get_session_storage_item: true,
+  set_session_storage_item: true,
+  get_storage_state: true,
+  set_storage_state: true,
+
+  // Visuals
+  highlight: true,
+  highlight_overlay: true,
+  remove_element: true,
+  flash: true,
+
+  // Advanced
+  get_mfa_code: true,
+  enter_mfa_code: true,
+  grant_permissions: true,
+  execute_script: true,
+  evaluate: true,
+  block_urls: true,
+
+  // Assertions
+  assert_text: true,
+  assert_exact_text: true,
+  assert_element: true,
+  assert_element_present: true,
+  assert_element_absent: true,
+  assert_element_not_visible: true,
+  assert_text_not_visible: true,
+  assert_title: true,
+  assert_url: true,
+  assert_attribute: true,
+
+  // Scrolling & waits
+  scroll_into_view: true,
+  scroll_to_bottom: true,
+  scroll_to_top: true,
+  scroll_down: true,
+  scroll_up: true,
+  scroll_to_y: true,
+  sleep: true,
+  wait_for_element: true,
+  wait_for_text: true,
+  wait_for_element_present: true,
+  wait_for_element_absent: true,
+  wait_for_network_idle: true
+};
+
+/** Every action name the worker understands, for runtime validation. */
+export const ACTION_NAMES = Object.keys(KNOWN_ACTIONS) as ActionName[];
+
+export function isActionName(name: string): name is ActionName {
+  return Object.prototype.hasOwnProperty.call(KNOWN_ACTIONS, name);
+}
+
+// ---------------------------------------------------------
+// WIRE FORMAT
+// ---------------------------------------------------------
+/**
+ * Task pushed onto `<prefix><worker>:tasks`. The session flags are only
+ * sent until the worker has answered the first task.
+ */
+export interface TaskPayload<A extends ActionName = ActionName> {
+  task_id: string;
+  browser_id: string;
+  worker_name: string;
+  action: A;
+  args: ActionArgs<A>;
+  result_key: string;
+  video?: boolean;
+  record?: boolean;
+  profile_id?: string;
+  browser_type?: string;
+}
+
+// ---------------------------------------------------------
+// CLIENT-SIDE RESULTS
+// ---------------------------------------------------------
+export type AcquireResult = OkResult<{ browser_id: string; worker: string }>;
+/** `path` is where the artifact store put the file; `data` is set by in-memory stores. */
+export type FileResult = Result<{ path: string; data?: Buffer }>;
@@ -0,0 +1,255 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+
+export interface ArtifactRecord {
+  /** Store key, e.g. `<run_id>/<session_id>/page.png`. */
+  key: string;
+  /** Where the store put it: an absolute path, `memory://` or `s3://` URL. */
+  location: string;
+  content_type: string;
+  bytes: number;
+  /** The action that produced it. */
+  action: string;
+  created_at: string;
+}
+
+/** Everything written during one session, as saved to `<run_id>/<session_id>/manifest.json`. */
+export interface ArtifactManifest {
+  run_id: string;
+  session_id: string;
+  worker: string;
+  browser_id: string;
+  started_at: string;
+  artifacts: ArtifactRecord[];
+}
+
+export interface StoredArtifact {
+  location: string;
+  /** The bytes themselves, for stores that keep artifacts in memory. */
+  data?: Buffer;
+}
+
+/**
+ * Destination for files the client produces (screenshots, PDFs, page
+ * sources, cookies, failure captures and session manifests).
+ */
+export interface ArtifactStore {
+  put(key: string, data: Buffer, contentType: string): Promise<StoredArtifact>;
+}
+
+/** Hands a file to the client's store, recording it in the session manifest. */
+export type ArtifactWriter = (name: string, data: Buffer | string, action: string) => Promise<StoredArtifact>;
+
+/** A sortable id for a group of sessions, e.g. `run_20240301T101500_3f9a`. */
+export function createRunId(): string {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, "").substring(0, 15);
+  return `run_${timestamp}_${crypto.randomBytes(2).toString("hex")}`;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".pdf": "application/pdf",
+  ".html": "text/html; charset=utf-8",
+  ".json": "application/json",
+  ".har": "application/json",
+  ".txt": "text/plain; charset=utf-8"
+};
+
+/** Content type guessed from a key's extension. */
+export function contentTypeFor(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream";
+}
+
+// ---------------------------------------------------------
+// LOCAL DIRECTORY
+// ---------------------------------------------------------
+
+/**
+ * Writes artifacts under a directory (the working directory by default).
+ * Absolute keys are written where they point.
+ */
+export class LocalArtifactStore implements ArtifactStore {
+  constructor(private root?: string) {}
+
+  public async put(key: string, data: Buffer): Promise<StoredArtifact> {
+    const file = path.resolve(this.root ?? process.cwd(), key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, data);
+    return { location: file };
+  }
+}
+
+// ---------------------------------------------------------
+// MEMORY
+// ---------------------------------------------------------
+
+/**
+ * Keeps artifacts in memory and returns their bytes in each `FileResult`.
+ * Nothing touches the filesystem.
+ */
+export class MemoryArtifactStore implements ArtifactStore {
+  private files = new Map<string, Buffer>();
+
+  public async put(key: string, data: Buffer): Promise<StoredArtifact> {
+    this.files.set(key, data);
+    return { location: `memory://${key}`, data };
+  }
+
+  public get(key: string): Buffer | undefined {
+    return this.files.get(key);
+  }
+
+  public keys(): string[] {
+    return [...this.files.keys()];
+  }
+
+  public clear(): void {
+    this.files.clear();
+  }
+}
+
+// ---------------------------------------------------------
+// S3-COMPATIBLE
+// ---------------------------------------------------------
+
+export interface S3ArtifactStoreOptions {
+  bucket: string;
+  /** Default: `AWS_REGION`, then `us-east-1`. */
+  region?: string;
+  /**
+   * Custom endpoint for S3-compatible services (MinIO, R2, a local stand-in),
+   * e.g. `http://localhost:9000`. Implies path-style addressing.
+   */
+  endpoint?: string;
+  /** Use `<endpoint>/<bucket>/<key>` instead of `<bucket>.<endpoint>/<key>`. */
+  forcePathStyle?: boolean;
+  /** Prepended to every key, e.g. `ci/`. */
+  prefix?: string;
+  /** Default: `AWS_ACCESS_KEY_ID`. */
+  accessKeyId?: string;
+  /** Default: `AWS_SECRET_ACCESS_KEY`. */
+  secretAccessKey?: string;
+  /** Default: `AWS_SESSION_TOKEN`. */
+  sessionToken?: string;
+}
+
+/**
+ * Uploads artifacts with a SigV4-signed `PutObject`, without depending on
+ * the AWS SDK.
+ */
+export class S3ArtifactStore implements ArtifactStore {
+  private bucket: string;
+  private region: string;
+  private endpoint: URL;
+  private pathStyle: boolean;
+  private prefix: string;
+  private accessKeyId: string;
+  private secretAccessKey: string;
+  private sessionToken?: string;
+
+  constructor(options: S3ArtifactStoreOptions) {
+    this.bucket = options.bucket;
+    this.region = options.region ?? process.env.AWS_REGION ?? "us-east-1";
+    this.pathStyle = options.forcePathStyle ?? !!options.endpoint;
+    this.endpoint = new URL(options.endpoint ?? `https://s3.${this.region}.amazonaws.com`);
+    this.prefix = options.prefix ?? "";
+    this.accessKeyId = options.accessKeyId ?? process.env.AWS_ACCESS_KEY_ID ?? "";
+    this.secretAccessKey = options.secretAccessKey ?? process.env.AWS_SECRET_ACCESS_KEY ?? "";
+    this.sessionToken = options.sessionToken ?? process.env.AWS_SESSION_TOKEN;
+
+    if (!this.accessKeyId || !this.secretAccessKey) {
+      throw new Error("S3ArtifactStore needs accessKeyId/secretAccessKey (or AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY).");
+    }
+  }
+
+  public async put(key: string, data: Buffer, contentType: string): Promise<StoredArtifact> {
+    const objectKey = this.prefix + key;
+    const host = this.pathStyle ? this.endpoint.host : `${this.bucket}.${this.endpoint.host}`;
+    const basePath = this.endpoint.pathname.replace(/\/$/, "");
+    const objectPath = `${basePath}${this.pathStyle ? `/${encodeKey(this.bucket)}` : ""}/${encodeKey(objectKey)}`;
+
+    const headers = this._sign("PUT", host, objectPath, data, {
+      "content-type": contentType,
+      "content-length": String(data.length)
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      const transport = this.endpoint.protocol === "http:" ? http : https;
+      const req = transport.request({
+        method: "PUT",
+        protocol: this.endpoint.protocol,
+        hostname: this.pathStyle ? this.endpoint.hostname : `${this.bucket}.${this.endpoint.hostname}`,
+        port: this.endpoint.port || undefined,
+        path: objectPath,
+        headers
+      }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk) => chunks.push(chunk));
+        res.on("end", () => {
+          const code = res.statusCode ?? 0;
+          if (code >= 200 && code < 300) return resolve();
+          reject(new Error(`S3 PutObject failed (${code}): ${Buffer.concat(chunks).toString("utf-8").slice(0, 300)}`));
+        });
+      });
+      req.on("error", reject);
+      req.end(data);
+    });
+
+    return { location: `s3://${this.bucket}/${objectKey}` };
+  }
+
+  // AWS Signature Version 4 headers for a single-chunk request
+  private _sign(method: string, host: string, canonicalPath: string, body: Buffer, extra: Record<string, string>): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256(body);
+
+    const headers: Record<string, string> = {
+      ...extra,
+      host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate
+    };
+    if (this.sessionToken) headers["x-amz-security-token"] = this.sessionToken;
+
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(";");
+    const canonicalRequest = [
+      method,
+      canonicalPath,
+      "",
+      names.map((name) => `${name}:${headers[name].trim()}\n`).join(""),
+      signedHeaders,
+      payloadHash
+    ].join("\n");
+
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+
+    let signingKey = hmac(`AWS4${this.secretAccessKey}`, date);
+    for (const part of [this.region, "s3", "aws4_request"]) signingKey = hmac(signingKey, part);
+    const signature = crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    headers.authorization = `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+    return headers;
+  }
+}
+
+function sha256(data: string | Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+// S3 keys are URI-encoded per segment, keeping the slashes
+function encodeKey(key: string): string {
+  return key.split("/").map((segment) =>
+    encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+  ).join("/");
+}
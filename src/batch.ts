@@ -0,0 +1,45 @@
+import { ActionArgs, ActionName, ActionResult, Result } from './actions';
+import { CallOptions } from './client';
+
+export interface BatchOptions extends CallOptions {
+  /**
+   * After the first failed action, withdraw the actions the worker has not
+   * started yet; they resolve as skipped errors. Implied in throwing mode.
+   */
+  stopOnFailure?: boolean;
+}
+
+export interface BatchItem {
+  action: ActionName;
+  args: object;
+}
+
+export type BatchExecutor = (items: BatchItem[], opts: BatchOptions) => Promise<Result[]>;
+
+/**
+ * Collects actions for `BrowserClient.batch()`. The result tuple type grows
+ * with every `add()`, so `run()` resolves to precisely typed results.
+ */
+export class ActionBatch<R extends Result[] = []> {
+  private items: BatchItem[] = [];
+
+  constructor(private executor: BatchExecutor) {}
+
+  /** Number of queued actions. */
+  public get length(): number {
+    return this.items.length;
+  }
+
+  public add<A extends ActionName>(action: A, args?: ActionArgs<A>): ActionBatch<[...R, ActionResult<A>]> {
+    this.items.push({ action, args: args ?? {} });
+    return this as unknown as ActionBatch<[...R, ActionResult<A>]>;
+  }
+
+  /**
+   * Submits every queued action at once and resolves with their results in
+   * the order they were added.
+   */
+  public async run(opts: BatchOptions = {}): Promise<R> {
+    return (await this.executor([...this.items], opts)) as R;
+  }
+}
@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+
+import { BrowserClient } from './client';
+import { RedisConnectionOptions } from './connection';
+import { FleetInspector } from './fleet';
+import { withBrowser } from './scope';
+import { loadScript, runScript } from './script';
+
+const USAGE = `Usage: isoautomate <command> [options]
+
+Commands:
+  workers                 Fleet status: workers, capacity, queues, stale browsers
+  run <script>            Run a JSON/YAML action script and print its step report
+  screenshot <url>        Capture a page to a PNG (--output, --selector)
+  pdf <url>               Print a page to a PDF (--output)
+  reclaim                 List busy browsers without a live lease; --force returns them to the pool
+
+Options:
+  --redis-url <url>       Redis connection string (default: REDIS_URL / REDIS_HOST...)
+  --env-file <path>       Load configuration from this .env file
+  --browser-type <type>   Browser to acquire (default: chrome, or the script's)
+  --wait <seconds>        Wait this long for a free browser (default: 0)
+  -o, --output <path>     Output file for screenshot/pdf
+  --selector <css>        Element to capture for screenshot
+  --force                 Let reclaim free the browsers it finds (default: dry run)
+  --dry-run               Only report what reclaim would free (the default)
+  --pretty                Indent JSON output
+  -h, --help              Show this help
+`;
+
+/**
+ * Entry point of the `isoautomate` bin. Prints one JSON document to stdout
+ * and returns the process exit code.
+ */
+export async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        "redis-url": { type: "string" },
+        "env-file": { type: "string" },
+        "browser-type": { type: "string" },
+        "wait": { type: "string" },
+        "output": { type: "string", short: "o" },
+        "selector": { type: "string" },
+        "dry-run": { type: "boolean" },
+        "force": { type: "boolean" },
+        "pretty": { type: "boolean" },
+        "help": { type: "boolean", short: "h" }
+      }
+    });
+  } catch (e: any) {
+    process.stderr.write(`${e.message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, target] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const wait = values.wait === undefined ? 0 : Number(values.wait);
+  if (values.wait?.trim() === "" || !Number.isFinite(wait) || wait < 0) {
+    process.stderr.write(`Invalid --wait '${values.wait}': expected a number of seconds\n\n${USAGE}`);
+    return 2;
+  }
+
+  const connection: RedisConnectionOptions = {
+    redisUrl: values["redis-url"],
+    envFile: values["env-file"]
+  };
+  const acquire = {
+    browserType: values["browser-type"] ?? "chrome",
+    wait
+  };
+  const print = (data: unknown) => process.stdout.write(JSON.stringify(data, null, values.pretty ? 2 : 0) + "\n");
+
+  try {
+    switch (command) {
+      case "workers": {
+        const fleet = new FleetInspector(connection);
+        try {
+          print(await fleet.snapshot());
+        } finally {
+          await fleet.close();
+        }
+        return 0;
+      }
+
+      case "reclaim": {
+        // Browsers of clients without leases look orphaned, so freeing is opt-in
+        const dryRun = values["dry-run"] || !values.force;
+        const client = new BrowserClient(connection);
+        try {
+          const reclaimed = await client.reclaim({ dryRun });
+          print({ status: "ok", dry_run: dryRun, reclaimed });
+        } finally {
+          await client.close();
+        }
+        return 0;
+      }
+
+      case "screenshot":
+      case "pdf": {
+        if (!target) throw new Error(`Missing <url> for '${command}'`);
+        const res = await withBrowser({ ...connection, ...acquire }, async (browser) => {
+          const opened = await browser.open_url(target);
+          if (opened.status !== "ok") return opened;
+          return command === "pdf"
+            ? browser.save_as_pdf(values.output)
+            : browser.screenshot(values.output, values.selector);
+        });
+        print(res);
+        return res.status === "ok" ? 0 : 1;
+      }
+
+      case "run": {
+        if (!target) throw new Error("Missing <script> for 'run'");
+        // Validated before any browser is acquired
+        const script = loadScript(target);
+        const report = await runScript(script, {
+          ...connection,
+          browserType: values["browser-type"],
+          wait: acquire.wait
+        });
+        print(report);
+        return report.status === "ok" ? 0 : 1;
+      }
+
+      default:
+        process.stderr.write(`Unknown command: '${command}'\n\n${USAGE}`);
+        return 2;
+    }
+  } catch (e: any) {
+    print({ status: "error", error: e.message, ...(e.name ? { type: e.name } : {}), ...(e.problems ? { problems: e.problems } : {}) });
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  main().then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -1,21 +1,79 @@
+import { EventEmitter } from 'events';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import Redis, { Redis as RedisClient } from 'ioredis';
-import * as dotenv from 'dotenv';
+import { Redis as RedisClient } from 'ioredis';
 
 import {
-  DEFAULT_REDIS_DB,
+  DEFAULT_LEASE_TTL,
+  DEFAULT_TIMEOUT,
   REDIS_PREFIX,
-  WORKERS_SET,
   SCREENSHOT_FOLDER,
   ASSERTION_FOLDER
 } from './config';
-import { BrowserError } from './errors';
-import { withRedisRetry, sleep } from './utils';
+import {
+  AssertionFailedError,
+  BrowserError,
+  ElementNotFoundError,
+  ErrorContext,
+  NoBrowsersAvailableError,
+  RedisTransportError,
+  SessionExpiredError,
+  SessionNotAcquiredError,
+  TaskCancelledError,
+  WorkerTimeoutError
+} from './errors';
+import {
+  ActionArgs,
+  ActionName,
+  ActionResult,
+  AcquireResult,
+  AssertionAction,
+  Cookie,
+  ErrorResult,
+  FileResult,
+  Result,
+  StorageState,
+  TaskPayload,
+  isActionName
+} from './actions';
+import { connectRedis, RedisConnectionOptions } from './connection';
+import { BrowserRef } from './fleet';
+import { RedisTransport, Transport } from './transport';
+import { ActionBatch, BatchItem, BatchOptions } from './batch';
+import { Locator } from './locator';
+import { NetworkControl } from './network';
+import { EmulationOptions, emulationCommands, mergeEmulation, userAgentFor } from './emulation';
+import { expectScreenshot, ExpectScreenshotOptions, ScreenshotComparison } from './visual';
+import { extract, Extracted, ExtractOptions, ExtractSchema, ListSpec } from './extract';
+import {
+  ArtifactManifest,
+  ArtifactStore,
+  LocalArtifactStore,
+  StoredArtifact,
+  contentTypeFor,
+  createRunId
+} from './artifacts';
+import {
+  BrowserClientEvents,
+  Logger,
+  TaskEvent,
+  TaskResultEvent,
+  TaskTimeoutEvent,
+  SPAN_STATUS_ERROR,
+  SPAN_STATUS_OK,
+  Span,
+  Tracer,
+  silentLogger
+} from './telemetry';
+import { sleep } from './utils';
+
+// Older runtimes lack the well-known symbol used by `await using`
+(Symbol as { asyncDispose?: symbol }).asyncDispose ??= Symbol.for("Symbol.asyncDispose");
 
-// Load environment variables immediately
-dotenv.config();
+// Identifies who holds a lease when inspecting Redis by hand
+const LEASE_OWNER = `${os.hostname()}:${process.pid}`;
 
 // Interface for the session object
 interface BrowserSession {
@@ -27,99 +85,227 @@ interface BrowserSession {
   record: boolean;
 }
 
-export class BrowserClient {
-  private redisUrl: string | undefined;
-  private host: string | undefined;
-  private port: string | undefined;
-  private password: string | undefined;
-  private db: number;
-  private ssl: boolean;
+export interface BrowserClientOptions extends RedisConnectionOptions {
+  /**
+   * Existing connection to share (e.g. from a BrowserPool). The client
+   * will not close a connection it did not open.
+   */
+  redis?: RedisClient;
+  /**
+   * Replaces Redis entirely, e.g. a `MockTransport` in unit tests. The
+   * client does not close a transport it was given.
+   */
+  transport?: Transport;
+  /** Raise `BrowserError` subclasses instead of returning error envelopes. */
+  throwOnError?: boolean;
+  /** Default seconds to wait for a worker's answer (default 60). */
+  timeout?: number;
+  /** Per-action defaults, e.g. `{ wait_for_network_idle: 120 }`. */
+  actionTimeouts?: Partial<Record<ActionName, number>>;
+  /** Receives structured entries for session and task lifecycle (default: silent). */
+  logger?: Logger;
+  /** OpenTelemetry tracer; every action then runs in its own span. */
+  tracer?: Tracer;
+  /**
+   * Where screenshots, PDFs, sources, cookies and failure captures go. When
+   * set, files are keyed `<runId>/<session_id>/<file name>` and a
+   * `manifest.json` is written on release. Default: the given paths, on disk.
+   */
+  artifactStore?: ArtifactStore;
+  /** Groups the artifacts of related sessions (default: generated per client). */
+  runId?: string;
+  /**
+   * Seconds a session lease lives without a heartbeat. Once it lapses the
+   * browser counts as orphaned and `reclaim()` may free it.
+   */
+  leaseTtl?: number;
+}
+
+export type ReclaimedBrowser = BrowserRef;
+
+export interface AcquireOptions {
+  browserType?: string;
+  video?: boolean;
+  profile?: boolean | string | null;
+  record?: boolean;
+  /** Seconds to keep retrying (with backoff) while no browser is free. */
+  wait?: number;
+  /** Only use this worker. */
+  worker?: string;
+  /** Never use these workers (e.g. known to be unhealthy). */
+  excludeWorkers?: string[];
+  /**
+   * Preferred labels, matched against the worker's `<prefix><worker>:meta`
+   * hash (e.g. `{ region: "eu-west", residential: "true" }`).
+   */
+  labels?: Record<string, string>;
+  /** Skip workers that do not match every label instead of ranking them lower. */
+  requireLabels?: boolean;
+  /** Stops waiting for a free browser. */
+  signal?: AbortSignal;
+  /** Device and environment to emulate once the browser is acquired (Chrome only). */
+  emulation?: EmulationOptions;
+}
+
+/**
+ * A held session as encoded by `serializeSession()`, everything another
+ * process needs to `attach()` to the same browser.
+ */
+export interface SerializedSession {
+  version: 1;
+  worker: string;
+  browser_id: string;
+  browser_type: string;
+  profile_id: string | null;
+  video: boolean;
+  record: boolean;
+  /** Whether the worker already received the video/record/profile flags. */
+  init_sent: boolean;
+  run_id: string;
+  session_id: string;
+  started_at: string;
+  emulation: EmulationOptions | null;
+}
+
+/**
+ * Per-call settings accepted as the last argument of every action.
+ */
+export interface CallOptions {
+  /** Overrides the client-level `throwOnError` for this call only. */
+  throwOnError?: boolean;
+  /**
+   * Seconds to wait for the worker's answer. Distinct from the element wait
+   * `timeout` argument some actions (click, type, wait_for_*) take. `0`
+   * waits indefinitely.
+   */
+  timeout?: number;
+  /**
+   * Cancels the action: stops waiting, withdraws the task if the worker has
+   * not started it and flags it as unwanted otherwise.
+   */
+  signal?: AbortSignal;
+}
+
+// Internal: the settings `_send` understands on top of CallOptions
+interface SendOptions extends CallOptions {
+  raiseOnFail?: boolean;
+}
+
+// Actions that legitimately outlast the default timeout
+const DEFAULT_ACTION_TIMEOUTS: Partial<Record<ActionName, number>> = {
+  stop_video: 120
+};
+
+// Extra seconds granted on top of an action's own element wait `timeout`
+const WORKER_GRACE_SECONDS = 10;
+
+
+// Internal: a task built by `_task`, pushed but not yet answered
+interface PendingTask<A extends ActionName> {
+  payload: TaskPayload<A>;
+  context: ErrorContext;
+  /** Set once the task is pushed. */
+  sent_at: number;
+  span: Span | null;
+}
+
+// Parses a `serializeSession()` token, rejecting anything else early
+function decodeSession(token: string): SerializedSession {
+  let state: any;
+  try {
+    state = JSON.parse(Buffer.from(token, "base64url").toString("utf-8"));
+  } catch {
+    state = null;
+  }
+  if (state?.version !== 1 || typeof state.worker !== 'string' || typeof state.browser_id !== 'string' || typeof state.browser_type !== 'string') {
+    throw new BrowserError("Invalid session token.", { action: "attach" });
+  }
+  return state;
+}
+
+// Worker error messages that mean the selector matched nothing
+const ELEMENT_NOT_FOUND_PATTERN = /not found|no such element|unable to locate|could not find|not present/i;
+
+export class BrowserClient extends EventEmitter<BrowserClientEvents> {
+  private throwOnError: boolean;
   
-  private r: RedisClient;
+  private transport: Transport;
+  private ownsTransport: boolean;
   public session: BrowserSession | null = null;
   public video_url: string | null = null;
   public record_url: string | null = null;
-  public session_data: any = {};
+  public session_data: ActionResult<"release_browser"> | {} = {};
   
   private _init_sent: boolean = false;
+  private leaseTtl: number;
+  private timeout: number;
+  private actionTimeouts: Partial<Record<ActionName, number>>;
+  private logger: Logger;
+  private tracer: Tracer | null;
+  private artifactStore: ArtifactStore;
+  private keyedArtifacts: boolean;
+  private _manifest: ArtifactManifest | null = null;
+  public readonly run_id: string;
+  private _acquired_at = 0;
+  private _heartbeat: NodeJS.Timeout | null = null;
+  private _network: NetworkControl | null = null;
+  private _emulation: EmulationOptions | null = null;
 
   /**
    * Node.js SDK for isoAutomate.
    * Controls remote browsers via Redis queues.
    */
-  constructor(options: {
-    redisUrl?: string;
-    redisHost?: string;
-    redisPort?: number | string;
-    redisPassword?: string;
-    redisDb?: number;
-    redisSsl?: boolean;
-    envFile?: string;
-  } = {}) {
-    // Load custom env file if provided
-    if (options.envFile) {
-      dotenv.config({ path: options.envFile, override: true });
-    }
-
-    const envUrl = process.env.REDIS_URL;
-    const envHost = process.env.REDIS_HOST;
-    const envPort = process.env.REDIS_PORT;
-    const envPass = process.env.REDIS_PASSWORD;
-    const envDb = process.env.REDIS_DB;
-    const envSsl = (process.env.REDIS_SSL || "false").toLowerCase() === "true" || process.env.REDIS_SSL === "1";
-
-    this.redisUrl = options.redisUrl || envUrl;
-    this.host = options.redisHost || envHost;
-    this.port = options.redisPort ? String(options.redisPort) : envPort;
-    this.password = options.redisPassword || envPass;
-    this.db = options.redisDb !== undefined ? options.redisDb : (envDb ? parseInt(envDb) : DEFAULT_REDIS_DB);
-    this.ssl = options.redisSsl !== undefined ? options.redisSsl : envSsl;
-
-    if (!this.redisUrl && !this.host) {
-      throw new BrowserError("Missing Redis Configuration.");
-    }
+  constructor(options: BrowserClientOptions = {}) {
+    super();
+    this.throwOnError = options.throwOnError ?? false;
+    this.leaseTtl = options.leaseTtl ?? DEFAULT_LEASE_TTL;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.actionTimeouts = { ...DEFAULT_ACTION_TIMEOUTS, ...options.actionTimeouts };
+    this.logger = options.logger ?? silentLogger;
+    this.tracer = options.tracer ?? null;
+    this.artifactStore = options.artifactStore ?? new LocalArtifactStore();
+    this.keyedArtifacts = !!options.artifactStore;
+    this.run_id = options.runId ?? createRunId();
 
-    try {
-      if (this.redisUrl) {
-        this.r = new Redis(this.redisUrl, {
-          db: this.db,
-          tls: this.ssl ? {} : undefined
-        });
-      } else {
-        const portNum = this.port ? parseInt(this.port) : 6379;
-        this.r = new Redis({
-          host: this.host,
-          port: portNum,
-          password: this.password,
-          db: this.db,
-          tls: this.ssl ? {} : undefined
-        });
-      }
-    } catch (e: any) {
-      throw new BrowserError(`Failed to initialize Redis connection: ${e.message}`);
+    if (options.transport) {
+      this.transport = options.transport;
+      this.ownsTransport = false;
+    } else if (options.redis) {
+      this.transport = new RedisTransport(options.redis);
+      this.ownsTransport = false;
+    } else {
+      this.transport = new RedisTransport(connectRedis(options), true);
+      this.ownsTransport = true;
     }
   }
 
-  // --- Redis Wrappers ---
-  
-  private async _r_rpush(key: string, ...values: string[]): Promise<number> {
-    return withRedisRetry(() => this.r.rpush(key, ...values));
-  }
-
   // --- Lifecycle Methods ---
 
   /**
    * Acquire a browser session using ATOMIC LUA SCRIPTING.
+   *
+   * Accepts either the positional `(browser_type, video, profile, record)`
+   * form or a single `AcquireOptions` object for waiting and targeting.
    */
   public async acquire(
-    browser_type: string = "chrome", 
+    browser_type: string | AcquireOptions = "chrome", 
     video: boolean = false, 
     profile: boolean | string | null = null, 
     record: boolean = false
-  ): Promise<any> {
+  ): Promise<AcquireResult> {
+    const options: AcquireOptions = typeof browser_type === 'string'
+      ? { browserType: browser_type, video, profile, record }
+      : browser_type;
+    const browserType = options.browserType ?? "chrome";
+    const wait = options.wait ?? 0;
+    // NaN would never reach the deadline and wait forever
+    if (typeof wait !== 'number' || !Number.isFinite(wait) || wait < 0) {
+      throw new BrowserError(`Invalid 'wait': expected a finite number of seconds >= 0, got ${String(wait)}`, { action: "acquire" });
+    }
+
     let profile_id: string | null = null;
     
-    if (profile === true) {
+    if (options.profile === true) {
       const profileStore = path.join(process.cwd(), ".iso_profiles");
       if (!fs.existsSync(profileStore)) fs.mkdirSync(profileStore, { recursive: true });
       
@@ -130,37 +316,27 @@ export class BrowserClient {
         profile_id = `user_${uuidv4().replace(/-/g, '').substring(0, 8)}`;
         fs.writeFileSync(idFile, profile_id);
       }
-    } else if (typeof profile === 'string') {
-      profile_id = profile;
+    } else if (typeof options.profile === 'string') {
+      profile_id = options.profile;
     }
 
     this._init_sent = false;
 
-    // LUA SCRIPT
-    const luaScript = `
-      local workers = redis.call('SMEMBERS', KEYS[1])
-      for i = #workers, 2, -1 do
-          local j = math.random(i)
-          workers[i], workers[j] = workers[j], workers[i]
-      end
-      
-      for _, worker in ipairs(workers) do
-          local free_key = ARGV[1] .. worker .. ':' .. ARGV[2] .. ':free'
-          local bid = redis.call('SPOP', free_key)
-          if bid then
-              local busy_key = ARGV[1] .. worker .. ':' .. ARGV[2] .. ':busy'
-              redis.call('SADD', busy_key, bid)
-              return {worker, bid}
-          end
-      end
-      return nil
-    `;
-
-    let result: any;
-    try {
-      result = await this.r.eval(luaScript, 1, WORKERS_SET, REDIS_PREFIX, browser_type);
-    } catch (e: any) {
-      throw new BrowserError(`Redis Lua Error: ${e.message}`);
+    const started = Date.now();
+    const deadline = Date.now() + wait * 1000;
+    let delay = 0.2;
+    let result: [string, string] | null = null;
+
+    while (true) {
+      if (options.signal?.aborted) throw this._cancelled({ action: "acquire" });
+      result = await this._claim(browserType, options);
+      if (result) break;
+
+      const remaining = (deadline - Date.now()) / 1000;
+      if (remaining <= 0) break;
+      // Exponential backoff with jitter so waiting clients don't stampede
+      await sleep(Math.min(delay * (0.5 + Math.random()), remaining));
+      delay = Math.min(delay * 2, 2);
     }
 
     if (result) {
@@ -170,48 +346,303 @@ export class BrowserClient {
       this.session = {
         browser_id: bid,
         worker: worker_name,
-        browser_type: browser_type,
-        video: video,
+        browser_type: browserType,
+        video: options.video ?? false,
         profile_id: profile_id,
-        record: record
+        record: options.record ?? false
+      };
+
+      this._start_heartbeat();
+      this._acquired_at = Date.now();
+      this._manifest = {
+        run_id: this.run_id,
+        session_id: uuidv4().replace(/-/g, '').substring(0, 12),
+        worker: worker_name,
+        browser_id: bid,
+        started_at: new Date(this._acquired_at).toISOString(),
+        artifacts: []
       };
 
-      if (profile_id || video || record) {
-        // Trigger initialization
-        await this._send("get_title");
+      const event = { worker: worker_name, browser_id: bid, browser_type: browserType, duration_ms: this._acquired_at - started };
+      this.logger.info("Browser acquired", event);
+      this.emit("acquire", event);
+
+      try {
+        if (profile_id || this.session.video || this.session.record) {
+          // Trigger initialization
+          await this._send("get_title");
+        }
+        if (options.emulation) await this.emulate(options.emulation);
+      } catch (e) {
+        // A half-configured browser is worse than none
+        await this.release({ throwOnError: false });
+        throw e;
       }
 
       return { status: "ok", browser_id: bid, worker: worker_name };
     }
 
-    throw new BrowserError(`No browsers available for type: '${browser_type}'. Check workers.`);
+    const waited = wait > 0 ? ` after waiting ${wait}s` : "";
+    this.logger.warn("No browser available", { browser_type: browserType, wait });
+    throw new NoBrowsersAvailableError(`No browsers available for type: '${browserType}'${waited}. Check workers.`, { action: "acquire" });
+  }
+
+  /**
+   * One atomic attempt at moving a browser from `:free` to `:busy`.
+   */
+  private async _claim(browser_type: string, options: AcquireOptions): Promise<[string, string] | null> {
+    try {
+      const targeted = options.worker !== undefined || options.excludeWorkers?.length || options.labels;
+      const candidates = targeted ? await this._rank_workers(options) : null;
+      // Targeting ruled out every worker
+      if (candidates && candidates.length === 0) return null;
+
+      const claimed = await this.transport.claim(browser_type, candidates, { ttl: this.leaseTtl, owner: LEASE_OWNER });
+      return claimed ? [claimed.worker, claimed.browser_id] : null;
+    } catch (e: any) {
+      if (e instanceof BrowserError) throw e;
+      throw new RedisTransportError(`Redis Lua Error: ${e.message}`, { action: "acquire" });
+    }
+  }
+
+  /**
+   * Filters registered workers by pin/exclusion and orders them by how many
+   * of the preferred labels their metadata hash matches.
+   */
+  private async _rank_workers(options: AcquireOptions): Promise<string[]> {
+    let workers = options.worker !== undefined ? [options.worker] : await this.transport.listWorkers();
+    if (options.excludeWorkers?.length) {
+      const excluded = new Set(options.excludeWorkers);
+      workers = workers.filter((w) => !excluded.has(w));
+    }
+
+    const labels = Object.entries(options.labels ?? {});
+    if (labels.length === 0 || workers.length === 0) return workers;
+
+    const metas = await this.transport.workerLabels(workers);
+
+    const ranked = workers.map((worker, i) => {
+      const meta = metas[i] ?? {};
+      const score = labels.filter(([key, value]) => meta[key] === value).length;
+      return { worker, score, tiebreak: Math.random() };
+    });
+
+    return ranked
+      .filter((c) => !options.requireLabels || c.score === labels.length)
+      .sort((a, b) => b.score - a.score || a.tiebreak - b.tiebreak)
+      .map((c) => c.worker);
   }
 
-  public async release(): Promise<any> {
-    if (!this.session) return { status: "error", error: "not_acquired" };
+  public async release(opts?: CallOptions): Promise<ActionResult<"release_browser">> {
+    const session = this.session;
+    if (!session) {
+      if (this._throws(opts)) throw new SessionNotAcquiredError("Cannot release: Browser session not acquired.", { action: "release_browser" });
+      return { status: "error", error: "not_acquired" };
+    }
 
+    let status = "error";
+    // A failed stop must not keep the browser from going back to the worker
+    let stopError: unknown = null;
     try {
-      if (this.session.video) {
-        const res = await this._send("stop_video", {}, 120);
-        if (res.video_url) {
-          this.video_url = res.video_url;
+      if (session.video) {
+        try {
+          const res = await this._send("stop_video", {}, { signal: opts?.signal, throwOnError: opts?.throwOnError });
+          if (res.status === "ok" && res.video_url) {
+            this.video_url = res.video_url;
+          }
+        } catch (e) {
+          stopError = e;
         }
       }
 
-      if (this.session.record) {
-        const resR = await this._send("stop_record", {}, 60);
-        if (resR.record_url) {
-          this.record_url = resR.record_url;
+      if (session.record) {
+        try {
+          const resR = await this._send("stop_record", {}, { signal: opts?.signal, throwOnError: opts?.throwOnError });
+          if (resR.status === "ok" && resR.record_url) {
+            this.record_url = resR.record_url;
+          }
+        } catch (e) {
+          stopError ??= e;
         }
       }
 
-      const res = await this._send("release_browser");
+      const res = await this._send("release_browser", {}, opts);
       this.session_data = res;
+      status = res.status;
+      if (stopError) throw stopError;
       return res;
     } catch (e: any) {
+      if (this._throws(opts)) throw e;
       return { status: "error", error: String(e) };
     } finally {
+      await this._end_lease();
       this.session = null;
+      this._network = null;
+      this._emulation = null;
+      await this._write_manifest();
+
+      const event = {
+        worker: session.worker,
+        browser_id: session.browser_id,
+        status,
+        duration_ms: Date.now() - this._acquired_at,
+        video_url: this.video_url,
+        record_url: this.record_url
+      };
+      this.logger.info("Browser released", event);
+      this.emit("release", event);
+    }
+  }
+
+  /**
+   * Encodes the held session as a token that `BrowserClient.attach()` turns
+   * back into a working client, in another process or after a restart.
+   *
+   * With `detach`, this client forgets the session without releasing it, so
+   * its own cleanup cannot free a browser another process now uses. The
+   * lease then lives on until it is attached (or lapses).
+   */
+  public serializeSession(options: { detach?: boolean } = {}): string {
+    const session = this.session;
+    if (!session) throw new SessionNotAcquiredError("Cannot serialize: Browser session not acquired.", { action: "serialize_session" });
+
+    const state: SerializedSession = {
+      version: 1,
+      ...session,
+      init_sent: this._init_sent,
+      run_id: this.run_id,
+      session_id: this._manifest?.session_id ?? uuidv4().replace(/-/g, '').substring(0, 12),
+      started_at: new Date(this._acquired_at).toISOString(),
+      emulation: this._emulation
+    };
+
+    if (options.detach) {
+      this._stop_heartbeat();
+      this.session = null;
+      this._network = null;
+      this._emulation = null;
+      this.logger.info("Browser detached", { worker: session.worker, browser_id: session.browser_id });
+    }
+    return Buffer.from(JSON.stringify(state)).toString("base64url");
+  }
+
+  /**
+   * Creates a client holding the session of a `serializeSession()` token,
+   * after checking its browser is still in the `:busy` set. Throws
+   * `SessionExpiredError` when it was released or reclaimed meanwhile.
+   */
+  public static async attach(token: string | SerializedSession, options: BrowserClientOptions = {}): Promise<BrowserClient> {
+    const state = typeof token === 'string' ? decodeSession(token) : token;
+    const client = new BrowserClient({ ...options, runId: options.runId ?? state.run_id });
+    const ref: BrowserRef = { worker: state.worker, browser_type: state.browser_type, browser_id: state.browser_id };
+
+    let adopted: boolean;
+    try {
+      adopted = await client.transport.adopt(ref, { ttl: client.leaseTtl, owner: LEASE_OWNER });
+    } catch (e: any) {
+      await client.close();
+      if (e instanceof BrowserError) throw e;
+      throw new RedisTransportError(`Redis Attach Error: ${e.message}`, { action: "attach", worker: state.worker, browser_id: state.browser_id });
+    }
+    if (!adopted) {
+      await client.close();
+      throw new SessionExpiredError(
+        `Browser '${state.browser_id}' on worker '${state.worker}' is no longer held: it was released or reclaimed.`,
+        { action: "attach", worker: state.worker, browser_id: state.browser_id }
+      );
+    }
+
+    client.session = {
+      browser_id: state.browser_id,
+      worker: state.worker,
+      browser_type: state.browser_type,
+      video: state.video,
+      profile_id: state.profile_id,
+      record: state.record
+    };
+    client._init_sent = state.init_sent;
+    client._emulation = state.emulation;
+    client._acquired_at = Date.parse(state.started_at) || Date.now();
+    client._manifest = {
+      run_id: client.run_id,
+      session_id: state.session_id,
+      worker: state.worker,
+      browser_id: state.browser_id,
+      started_at: state.started_at,
+      artifacts: []
+    };
+    client._start_heartbeat();
+    client.logger.info("Browser attached", { ...ref, session_id: state.session_id });
+    return client;
+  }
+
+  /**
+   * Releases any held session and closes the connection, so the client can
+   * be declared with `await using`.
+   */
+  public async [Symbol.asyncDispose](): Promise<void> {
+    try {
+      if (this.session) await this.release();
+    } finally {
+      await this.close();
+    }
+  }
+
+  // --- Leases ---
+
+  private _lease_ref(): BrowserRef | null {
+    if (!this.session) return null;
+    const { worker, browser_type, browser_id } = this.session;
+    return { worker, browser_type, browser_id };
+  }
+
+  // Refresh the lease at a third of its TTL so one missed beat is harmless
+  private _start_heartbeat(): void {
+    this._stop_heartbeat();
+    const lease = this._lease_ref();
+    if (!lease) return;
+
+    this._heartbeat = setInterval(() => {
+      this.transport.renewLease(lease, { ttl: this.leaseTtl, owner: LEASE_OWNER }).catch((e) => {
+        // A missed beat is retried on the next tick
+        this.logger.warn("Lease heartbeat failed", { ...lease, error: e.message });
+      });
+    }, (this.leaseTtl * 1000) / 3);
+    // Never keep the process alive just to heartbeat
+    this._heartbeat.unref();
+  }
+
+  private _stop_heartbeat(): void {
+    if (this._heartbeat) clearInterval(this._heartbeat);
+    this._heartbeat = null;
+  }
+
+  private async _end_lease(): Promise<void> {
+    this._stop_heartbeat();
+    const lease = this._lease_ref();
+    if (!lease) return;
+    try {
+      await this.transport.endLease(lease);
+    } catch (e: any) {
+      // The lease will simply expire
+      this.logger.warn("Failed to end lease", { ...lease, error: e.message });
+    }
+  }
+
+  /**
+   * Returns orphaned browsers to their `:free` set.
+   *
+   * A browser is orphaned when it sits in a `:busy` set without a live lease,
+   * i.e. the process holding it died without releasing. Browsers acquired by
+   * SDK versions without leases look orphaned too, so only run this once
+   * every client in the fleet sets leases.
+   */
+  public async reclaim(options: { dryRun?: boolean } = {}): Promise<ReclaimedBrowser[]> {
+    try {
+      return await this.transport.reclaim(options);
+    } catch (e: any) {
+      if (e instanceof BrowserError) throw e;
+      throw new RedisTransportError(`Redis Reclaim Error: ${e.message}`, { action: "reclaim" });
     }
   }
 
@@ -219,17 +650,39 @@ export class BrowserClient {
    * Close the Redis connection (Useful for cleanup in Node)
    */
   public async close(): Promise<void> {
-    await this.r.quit();
+    this._stop_heartbeat();
+    if (this.ownsTransport) await this.transport.close();
   }
 
-  private async _send(action: string, args: any = {}, timeout: number = 60): Promise<any> {
-    if (!this.session) throw new BrowserError(`Cannot perform action '${action}': Browser session not acquired.`);
+  private async _send<A extends ActionName>(
+    action: A,
+    args: ActionArgs<A> = {} as ActionArgs<A>,
+    opts: SendOptions = {}
+  ): Promise<ActionResult<A>> {
+    const task = this._task(action, args);
+    if (opts.signal?.aborted) throw this._cancelled(task.context);
+
+    try {
+      await this.transport.push(task.payload.worker_name, [task.payload]);
+    } catch (e: any) {
+      if (e instanceof BrowserError) throw e;
+      throw new RedisTransportError(`Redis RPC Error: ${e.message}`, task.context);
+    }
+    this._trace_sent(task);
+
+    return this._await_result(task, opts);
+  }
+
+  /**
+   * Builds the wire payload for one action on the current session.
+   */
+  private _task<A extends ActionName>(action: A, args: ActionArgs<A>): PendingTask<A> {
+    if (!this.session) throw new SessionNotAcquiredError(`Cannot perform action '${action}': Browser session not acquired.`, { action });
 
     const task_id = uuidv4().replace(/-/g, '');
     const result_key = `${REDIS_PREFIX}result:${task_id}`;
-    const queue = `${REDIS_PREFIX}${this.session.worker}:tasks`;
 
-    const payload: any = {
+    const payload: TaskPayload<A> = {
       task_id: task_id,
       browser_id: this.session.browser_id,
       worker_name: this.session.worker,
@@ -247,193 +700,560 @@ export class BrowserClient {
       }
     }
 
-    await this._r_rpush(queue, JSON.stringify(payload));
+    const context: ErrorContext = {
+      task_id,
+      action,
+      worker: this.session.worker,
+      browser_id: this.session.browser_id
+    };
+
+    return { payload, context, sent_at: 0, span: null };
+  }
+
+  /**
+   * Waits for a pushed task's result and applies the throwing rules.
+   */
+  private async _await_result<A extends ActionName>(task: PendingTask<A>, opts: SendOptions): Promise<ActionResult<A>> {
+    const { payload, context } = task;
+    const timeout = this._timeout_for(payload.action, payload.args, opts);
 
+    let res: ActionResult<A>;
     try {
-      // Blocking Pop
-      const resp = await this.r.blpop(result_key, timeout);
+      const resp = await this.transport.result(payload, timeout, opts.signal);
       if (resp) {
         this._init_sent = true;
-        // resp[0] is key, resp[1] is value
-        return JSON.parse(resp[1]);
+        res = resp as ActionResult<A>;
       } else {
+        await this._abandon(task);
+        this._trace_timeout(task, timeout);
+        if (this._throws(opts)) throw new WorkerTimeoutError(`Timeout waiting for worker after ${timeout}s`, context);
         return { status: "error", error: "Timeout waiting for worker" };
       }
     } catch (e: any) {
+      if (e instanceof BrowserError) throw e;
+      if (opts.signal?.aborted) {
+        await this._abandon(task);
+        this._trace_result(task, { status: "error", error: "Cancelled" });
+        throw this._cancelled(context);
+      }
+      this._trace_result(task, { status: "error", error: `Redis RPC Error: ${e.message}` });
+      if (this._throws(opts)) throw new RedisTransportError(`Redis RPC Error: ${e.message}`, context);
       return { status: "error", error: `Redis RPC Error: ${e.message}` };
     }
+    this._trace_result(task, res);
+
+    if (res.status === "fail" && opts.raiseOnFail) {
+      throw this._to_error(res, context, await this._save_failure_screenshot(res, payload.action, payload.args, context));
+    }
+    if (res.status !== "ok" && this._throws(opts)) {
+      throw this._to_error(res, context);
+    }
+    return res;
   }
 
-  // --- Assertion Handler ---
-  private async _handle_assertion(action: string, args: any): Promise<boolean> {
-    if (!args.screenshot) args.screenshot = true;
-    const res = await this._send(action, args);
+  /**
+   * Pushes every action in one RPUSH and collects the results in order.
+   * With `stopOnFailure` (implied in throwing mode), tasks the worker has
+   * not started yet are pulled back off the queue after the first failure.
+   */
+  private async _send_many(items: BatchItem[], opts: BatchOptions): Promise<Result[]> {
+    if (items.length === 0) return [];
 
-    if (res.status === "fail") {
-      if (res.screenshot_base64) {
-        try {
-          if (!fs.existsSync(ASSERTION_FOLDER)) fs.mkdirSync(ASSERTION_FOLDER, { recursive: true });
-          const selectorClean = (args.selector || "unknown").replace(/[#. ]/g, "_").substring(0, 20);
-          const timestamp = new Date().toISOString().replace(/[-:T.]/g, "").substring(8, 14); // HHMMSS approx
-          const filename = `FAIL_${action}_${selectorClean}_${timestamp}.png`;
-          const filePath = path.join(ASSERTION_FOLDER, filename);
-          
-          fs.writeFileSync(filePath, Buffer.from(res.screenshot_base64, 'base64'));
-        } catch (e) {
-            // Ignore write errors
+    const tasks = items.map((item) => this._task(item.action, item.args));
+    if (opts.signal?.aborted) throw this._cancelled(tasks[0].context);
+    const worker = tasks[0].payload.worker_name;
+    const payloads = tasks.map((task) => task.payload);
+
+    try {
+      await this.transport.push(worker, payloads);
+    } catch (e: any) {
+      if (e instanceof BrowserError) throw e;
+      throw new RedisTransportError(`Redis RPC Error: ${e.message}`, tasks[0].context);
+    }
+    for (const task of tasks) this._trace_sent(task);
+
+    const results: Result[] = [];
+    for (let i = 0; i < tasks.length; i++) {
+      let res: Result;
+      try {
+        res = await this._await_result(tasks[i], opts);
+      } catch (e) {
+        const rest = tasks.slice(i + 1);
+        if (e instanceof TaskCancelledError) {
+          // Everything after the cancelled task is unwanted too
+          await Promise.all(rest.map((task) => this._abandon(task)));
+        } else {
+          await this._withdraw(worker, payloads.slice(i + 1));
+        }
+        for (const task of rest) this._trace_result(task, { status: "error", error: "Skipped: an earlier batch action failed" });
+        throw e;
+      }
+      results.push(res);
+
+      if (res.status !== "ok" && opts.stopOnFailure) {
+        const withdrawn = await this._withdraw(worker, payloads.slice(i + 1));
+        for (let j = i + 1; j < tasks.length; j++) {
+          if (withdrawn[j - i - 1]) {
+            const skipped: ErrorResult = { status: "error", error: "Skipped: an earlier batch action failed" };
+            this._trace_result(tasks[j], skipped);
+            results.push(skipped);
+          } else {
+            // Already picked up by the worker: its result is still collected
+            results.push(await this._await_result(tasks[j], { ...opts, throwOnError: false }));
+          }
         }
+        break;
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Resolves the BLPOP timeout: per call, then per action, then the client
+   * default. Actions with their own element wait get that plus some grace.
+   */
+  private _timeout_for(action: ActionName, args: object, opts: CallOptions): number {
+    if (opts.timeout !== undefined) return opts.timeout;
+    const base = this.actionTimeouts[action] ?? this.timeout;
+    const own = (args as { timeout?: unknown }).timeout;
+    return typeof own === 'number' ? Math.max(base, own + WORKER_GRACE_SECONDS) : base;
+  }
+
+  /**
+   * Cleans up after a task nobody waits for anymore: withdraws it if still
+   * queued, otherwise tells the worker it is no longer wanted.
+   */
+  private async _abandon(task: PendingTask<ActionName>): Promise<void> {
+    const [withdrawn] = await this._withdraw(task.payload.worker_name, [task.payload]);
+    if (withdrawn) return;
+    try {
+      await this.transport.cancel(task.payload);
+    } catch (e) {
+      // Best effort: the worker simply runs a task nobody reads
+    }
+  }
+
+  private _cancelled(context: ErrorContext): TaskCancelledError {
+    return new TaskCancelledError(`Action '${context.action}' was cancelled`, context);
+  }
+
+  // True for each task that was still queued (and is now removed)
+  private async _withdraw(worker: string, payloads: TaskPayload[]): Promise<boolean[]> {
+    if (payloads.length === 0) return [];
+    try {
+      return await this.transport.withdraw(worker, payloads);
+    } catch (e) {
+      return payloads.map(() => false);
+    }
+  }
+
+  // --- Telemetry ---
+
+  private _trace_sent(task: PendingTask<ActionName>): void {
+    const event = { ...task.context } as TaskEvent;
+    task.sent_at = Date.now();
+    task.span = this.tracer?.startSpan(`isoautomate ${event.action}`, {
+      attributes: {
+        "isoautomate.task_id": event.task_id,
+        "isoautomate.action": event.action,
+        "isoautomate.worker": event.worker,
+        "isoautomate.browser_id": event.browser_id
       }
-      const errorMsg = res.error || "Unknown assertion error";
-      throw new Error(errorMsg); // Using standard Error for assertions
+    }) ?? null;
+    this.logger.debug("Task sent", { ...event });
+    this.emit("task:sent", event);
+  }
+
+  private _trace_result(task: PendingTask<ActionName>, res: Result): void {
+    const event: TaskResultEvent = { ...task.context as TaskEvent, status: res.status, duration_ms: Date.now() - task.sent_at };
+    if (res.status !== "ok") event.error = res.error;
+
+    if (task.span) {
+      task.span.setAttribute("isoautomate.status", res.status);
+      task.span.setStatus(res.status === "ok" ? { code: SPAN_STATUS_OK } : { code: SPAN_STATUS_ERROR, message: res.error });
+      task.span.end();
+    }
+    if (res.status === "ok") {
+      this.logger.debug("Task finished", { ...event });
+    } else {
+      this.logger.warn("Task failed", { ...event });
+    }
+    this.emit("task:result", event);
+  }
+
+  private _trace_timeout(task: PendingTask<ActionName>, timeout: number): void {
+    const event: TaskTimeoutEvent = { ...task.context as TaskEvent, duration_ms: Date.now() - task.sent_at, timeout };
+
+    if (task.span) {
+      task.span.setStatus({ code: SPAN_STATUS_ERROR, message: `Timeout after ${timeout}s` });
+      task.span.end();
+    }
+    this.logger.warn("Task timed out", { ...event });
+    this.emit("task:timeout", event);
+  }
+
+  // --- Artifacts ---
+
+  /**
+   * Artifacts written during the current (or last released) session.
+   */
+  public manifest(): ArtifactManifest | null {
+    return this._manifest;
+  }
+
+  // Hands a file produced by an action to the store, records and announces it
+  private async _write_artifact(name: string, data: Buffer | string, action: string): Promise<StoredArtifact> {
+    const key = this.keyedArtifacts && this._manifest
+      ? `${this._manifest.run_id}/${this._manifest.session_id}/${path.basename(name)}`
+      : name;
+    const body = Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf-8');
+    const content_type = contentTypeFor(key);
+    const stored = await this.artifactStore.put(key, body, content_type);
+
+    this._manifest?.artifacts.push({
+      key,
+      location: stored.location,
+      content_type,
+      bytes: body.length,
+      action,
+      created_at: new Date().toISOString()
+    });
+    const event = {
+      action,
+      worker: this.session?.worker,
+      browser_id: this.session?.browser_id,
+      key,
+      path: stored.location,
+      bytes: body.length
+    };
+    this.logger.info("Artifact saved", event);
+    this.emit("artifact:saved", event);
+    return stored;
+  }
+
+  private async _write_manifest(): Promise<void> {
+    const manifest = this._manifest;
+    if (!this.keyedArtifacts || !manifest || manifest.artifacts.length === 0) return;
+    try {
+      const key = `${manifest.run_id}/${manifest.session_id}/manifest.json`;
+      await this.artifactStore.put(key, Buffer.from(JSON.stringify(manifest, null, 2)), contentTypeFor(key));
+    } catch (e: any) {
+      this.logger.error("Failed to write artifact manifest", { session_id: manifest.session_id, error: e.message });
+    }
+  }
+
+  // --- Emulation ---
+
+  private async _apply_emulation(options: EmulationOptions, opts?: CallOptions, resetUserAgent = false): Promise<void> {
+    const call = { ...opts, throwOnError: true };
+    let currentUserAgent: string | undefined;
+    if (resetUserAgent) {
+      // The browser's own user agent, whatever the page is overridden to
+      const version = await this.execute_cdp_cmd("Browser.getVersion", {}, call);
+      if (version.status === "ok") currentUserAgent = (version.result as { userAgent?: string } | undefined)?.userAgent;
+    } else if (options.locale && !userAgentFor(options)) {
+      // Accept-Language can only be overridden together with a user agent
+      const ua = await this.get_user_agent(call);
+      if (ua.status === "ok") currentUserAgent = ua.user_agent;
+    }
+    for (const [cmd, params] of emulationCommands(options, currentUserAgent)) {
+      await this.execute_cdp_cmd(cmd, params, call);
+    }
+  }
+
+  // CDP overrides belong to one tab; carry them over to the one now active
+  private async _reemulate<R extends Result>(res: R, opts?: CallOptions): Promise<R | ErrorResult> {
+    if (res.status !== "ok" || !this._emulation) return res;
+    try {
+      await this._apply_emulation(this._emulation, opts);
+      return res;
+    } catch (e: any) {
+      if (this._throws(opts)) throw e;
+      return { status: "error", error: `Emulation not reapplied: ${e.message}` };
     }
+  }
+
+  // --- Error Mapping ---
+
+  private _throws(opts?: CallOptions): boolean {
+    return opts?.throwOnError ?? this.throwOnError;
+  }
+
+  /**
+   * Maps a failed worker envelope onto the matching BrowserError subclass.
+   */
+  private _to_error(res: ErrorResult, context: ErrorContext, screenshot_path?: string): BrowserError {
+    const message = res.error || `Action '${context.action}' failed`;
+    if (res.status === "fail") return new AssertionFailedError(message, context, screenshot_path);
+    if (ELEMENT_NOT_FOUND_PATTERN.test(message)) return new ElementNotFoundError(message, context);
+    return new BrowserError(message, context);
+  }
+
+  /**
+   * Local (client-side) failure: thrown in throwing mode, returned otherwise.
+   */
+  private _local_error(message: string, action: string, opts?: CallOptions): ErrorResult {
+    if (this._throws(opts)) {
+      throw new BrowserError(message, { action, worker: this.session?.worker, browser_id: this.session?.browser_id });
+    }
+    return { status: "error", error: message };
+  }
+
+  // --- Assertion Handler ---
+  private async _handle_assertion<A extends AssertionAction>(action: A, args: ActionArgs<A>, opts?: CallOptions): Promise<true> {
+    if (!args.screenshot) args.screenshot = true;
+    // "fail" always raises; other errors follow the throwing mode
+    await this._send(action, args, { ...opts, raiseOnFail: true });
     return true;
   }
 
+  private async _save_failure_screenshot(res: ErrorResult, action: string, args: object, context: ErrorContext): Promise<string | undefined> {
+    if (!res.screenshot_base64) return undefined;
+    try {
+      const selectorClean = (('selector' in args && typeof args.selector === 'string' && args.selector) || "unknown").replace(/[^\w-]/g, "_").substring(0, 20);
+      // Full date and time plus the task id keep names unique across runs
+      const timestamp = new Date().toISOString().replace(/[-:.]/g, "").replace("T", "_").substring(0, 18); // YYYYMMDD_HHMMSSmmm
+      const filename = `FAIL_${action}_${selectorClean}_${timestamp}_${(context.task_id ?? "").substring(0, 8)}.png`;
+      const filePath = path.join(ASSERTION_FOLDER, filename);
+      
+      return (await this._write_artifact(filePath, Buffer.from(res.screenshot_base64, 'base64'), action)).location;
+    } catch (e: any) {
+      // The assertion error is still raised, just without a screenshot
+      this.logger.error("Failed to save failure screenshot", { action, error: e.message });
+      return undefined;
+    }
+  }
+
   // --- Helper: Save Base64 File ---
-  private _save_base64_file(res: any, key_name: string, output_path: string): any {
-    if (res.status === "ok" && res[key_name]) {
+  private async _save_base64_file<K extends string>(
+    res: Result<{ [key in K]: string }>,
+    key_name: K,
+    output_path: string,
+    action: string,
+    opts?: CallOptions
+  ): Promise<FileResult> {
+    if (res.status !== "ok") return res;
+    const data = res[key_name];
+    if (data) {
       try {
-        const dir = path.dirname(output_path);
-        if (dir && !fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-        
-        fs.writeFileSync(output_path, Buffer.from(res[key_name], 'base64'));
-        return { status: "ok", path: path.resolve(output_path) };
+        return this._file_result(await this._write_artifact(output_path, Buffer.from(data, 'base64'), action));
       } catch (e: any) {
-        return { status: "error", error: `Failed to save local file: ${e.message}` };
+        return this._local_error(`Failed to save local file: ${e.message}`, action, opts);
       }
     }
-    return res;
+    return this._local_error(`Worker returned no '${key_name}' data`, action, opts);
+  }
+
+  private _file_result(stored: StoredArtifact): FileResult {
+    return stored.data ? { status: "ok", path: stored.location, data: stored.data } : { status: "ok", path: stored.location };
   }
 
   // --- Actions ---
 
-  public async screenshot(filename?: string, selector?: string): Promise<any> {
+  /**
+   * Starts a batch: queued actions are submitted to the worker in a single
+   * round-trip and their results returned in order by `run()`.
+   */
+  public batch(): ActionBatch {
+    return new ActionBatch((items, opts) => this._send_many(items, opts));
+  }
+
+  /**
+   * A reusable element reference; see `Locator`. Nothing is sent until one
+   * of its methods is called.
+   */
+  public locator(selector: string): Locator {
+    return new Locator(this, selector);
+  }
+
+  /**
+   * Compares a screenshot against the baseline `<baselineDir>/<name>.png`
+   * and raises `VisualMismatchError` when they differ, after writing the
+   * actual, expected and diff images through the artifact store. A missing
+   * baseline is created from the capture.
+   */
+  public async expectScreenshot(name: string, options?: ExpectScreenshotOptions): Promise<ScreenshotComparison> {
+    return expectScreenshot(this, (file, data, action) => this._write_artifact(file, data, action), name, options);
+  }
+
+  /** The emulation in effect, merged across `emulate()` calls. */
+  public get emulation(): EmulationOptions | null {
+    return this._emulation;
+  }
+
+  /**
+   * Emulates a device and environment through CDP (Chrome only):
+   *
+   *     await browser.emulate({ device: "iPhone 15", locale: "de-DE", colorScheme: "dark" });
+   *
+   * Settings merge with earlier calls and are reapplied after tab and window
+   * switches; a new `device` replaces the earlier one's viewport, touch,
+   * mobile and user agent settings. Always throws on failure.
+   */
+  public async emulate(options: EmulationOptions, opts?: CallOptions): Promise<void> {
+    const merged = mergeEmulation(this._emulation, options);
+    // A desktop preset has no user agent of its own to replace a phone's with
+    const resetUserAgent = !!this._emulation && !!userAgentFor(this._emulation) && !userAgentFor(merged);
+    await this._apply_emulation(merged, opts, resetUserAgent);
+    this._emulation = merged;
+  }
+
+  /**
+   * Request routing, extra headers, throttling and HAR capture for this
+   * session; see `NetworkControl`.
+   */
+  public get network(): NetworkControl {
+    return this._network ??= new NetworkControl(this, (name, data, action) => this._write_artifact(name, data, action));
+  }
+
+  /**
+   * Reads structured data in one `evaluate` task per page:
+   *
+   *     const products = await browser.extract({
+   *       selector: ".product",
+   *       items: { name: "h2", price: { selector: ".price", type: "number" }, url: { selector: "a", attribute: "href" } }
+   *     }, { next: "a.next-page", output: "products.csv" });
+   *
+   * Always throws on failure.
+   */
+  public async extract<const S extends ExtractSchema | ListSpec>(schema: S, options?: ExtractOptions): Promise<Extracted<S>> {
+    return extract(this, (name, data, action) => this._write_artifact(name, data, action), schema, options);
+  }
+
+  /**
+   * Sends any worker action by name. Prefer the dedicated methods; this is
+   * for callers that only know the action at runtime (CLI, scripts).
+   */
+  public async perform<A extends ActionName>(action: A, args?: ActionArgs<A>, opts?: CallOptions): Promise<ActionResult<A>> {
+    if (!isActionName(action)) return this._local_error(`Unknown action: '${action}'`, action, opts);
+    return this._send(action, args, opts);
+  }
+
+  public async screenshot(filename?: string, selector?: string, opts?: CallOptions): Promise<FileResult> {
     if (!filename) {
       const timestamp = new Date().toISOString().replace(/[-:T.]/g, "").substring(0, 15);
       const uniqueId = uuidv4().replace(/-/g, '').substring(0, 4);
       filename = path.join(SCREENSHOT_FOLDER, `${timestamp}_${uniqueId}.png`);
     }
-    const res = await this._send("save_screenshot", { name: "temp.png", selector: selector });
-    return this._save_base64_file(res, "image_base64", filename);
+    const res = await this._send("save_screenshot", { name: "temp.png", selector: selector }, opts);
+    return this._save_base64_file(res, "image_base64", filename, "save_screenshot", opts);
   }
 
-  public async save_as_pdf(filename?: string): Promise<any> {
+  public async save_as_pdf(filename?: string, opts?: CallOptions): Promise<FileResult> {
     if (!filename) filename = `doc_${Math.floor(Date.now() / 1000)}.pdf`;
-    const res = await this._send("save_as_pdf");
-    return this._save_base64_file(res, "pdf_base64", filename);
+    const res = await this._send("save_as_pdf", {}, opts);
+    return this._save_base64_file(res, "pdf_base64", filename, "save_as_pdf", opts);
   }
 
-  public async save_page_source(name: string = "source.html"): Promise<any> {
-    const res = await this._send("save_page_source");
+  public async save_page_source(name: string = "source.html", opts?: CallOptions): Promise<FileResult | ActionResult<"save_page_source">> {
+    const res = await this._send("save_page_source", {}, opts);
     if (res.status === "ok" && res.source_base64) {
       try {
         const data = Buffer.from(res.source_base64, 'base64').toString('utf-8');
-        fs.writeFileSync(name, data, 'utf-8');
-        return { status: "ok", path: path.resolve(name) };
+        return this._file_result(await this._write_artifact(name, data, "save_page_source"));
       } catch (e: any) {
-        return { status: "error", error: String(e) };
+        return this._local_error(String(e), "save_page_source", opts);
       }
     }
     return res;
   }
 
-  public async execute_cdp_cmd(cmd: string, params: any = {}): Promise<any> {
-    return this._send("execute_cdp_cmd", { cmd, params });
+  public async execute_cdp_cmd(cmd: string, params: Record<string, unknown> = {}, opts?: CallOptions): Promise<ActionResult<"execute_cdp_cmd">> {
+    return this._send("execute_cdp_cmd", { cmd, params }, opts);
   }
 
-  public async upload_file(selector: string, local_file_path: string): Promise<any> {
-    if (!fs.existsSync(local_file_path)) return { status: "error", error: `Local file not found: ${local_file_path}` };
+  public async upload_file(selector: string, local_file_path: string, opts?: CallOptions): Promise<ActionResult<"upload_file">> {
+    if (!fs.existsSync(local_file_path)) return this._local_error(`Local file not found: ${local_file_path}`, "upload_file", opts);
     const fileData = fs.readFileSync(local_file_path).toString('base64');
     const filename = path.basename(local_file_path);
-    return this._send("upload_file", { selector, file_name: filename, file_data: fileData });
+    return this._send("upload_file", { selector, file_name: filename, file_data: fileData }, opts);
   }
 
   // --- Standard Mappings ---
 
-  public async open_url(url: string): Promise<any> { return this._send("open_url", { url }); }
-  public async reload(ignore_cache: boolean = true, script?: string): Promise<any> { return this._send("reload", { ignore_cache, script_to_evaluate_on_load: script }); }
-  public async refresh(): Promise<any> { return this._send("refresh"); }
-  public async go_back(): Promise<any> { return this._send("go_back"); }
-  public async go_forward(): Promise<any> { return this._send("go_forward"); }
-  public async internalize_links(): Promise<any> { return this._send("internalize_links"); }
-  public async get_navigation_history(): Promise<any> { return this._send("get_navigation_history"); }
-
-  public async click(selector: string, timeout?: number): Promise<any> { return this._send("click", { selector, timeout }); }
-  public async click_if_visible(selector: string): Promise<any> { return this._send("click_if_visible", { selector }); }
-  public async click_visible_elements(selector: string, limit: number = 0): Promise<any> { return this._send("click_visible_elements", { selector, limit }); }
-  public async click_nth_element(selector: string, number: number = 1): Promise<any> { return this._send("click_nth_element", { selector, number }); }
-  public async click_nth_visible_element(selector: string, number: number = 1): Promise<any> { return this._send("click_nth_visible_element", { selector, number }); }
-  public async click_link(text: string): Promise<any> { return this._send("click_link", { text }); }
-  public async click_active_element(): Promise<any> { return this._send("click_active_element"); }
-  public async mouse_click(selector: string): Promise<any> { return this._send("mouse_click", { selector }); }
-  public async nested_click(parent_selector: string, selector: string): Promise<any> { return this._send("nested_click", { parent_selector, selector }); }
-  public async click_with_offset(selector: string, x: number, y: number, center: boolean = false): Promise<any> { return this._send("click_with_offset", { selector, x, y, center }); }
-
-  public async type(selector: string, text: string, timeout?: number): Promise<any> { return this._send("type", { selector, text, timeout }); }
-  public async press_keys(selector: string, text: string): Promise<any> { return this._send("press_keys", { selector, text }); }
-  public async send_keys(selector: string, text: string): Promise<any> { return this._send("send_keys", { selector, text }); }
-  public async set_value(selector: string, text: string): Promise<any> { return this._send("set_value", { selector, text }); }
-  public async clear(selector: string): Promise<any> { return this._send("clear", { selector }); }
-  public async clear_input(selector: string): Promise<any> { return this._send("clear_input", { selector }); }
-  public async submit(selector: string): Promise<any> { return this._send("submit", { selector }); }
-  public async focus(selector: string): Promise<any> { return this._send("focus", { selector }); }
-
-  public async gui_click_element(selector: string, timeframe: number = 0.25): Promise<any> { return this._send("gui_click_element", { selector, timeframe }); }
-  public async gui_click_x_y(x: number, y: number, timeframe: number = 0.25): Promise<any> { return this._send("gui_click_x_y", { x, y, timeframe }); }
-  public async gui_click_captcha(): Promise<any> { return this._send("gui_click_captcha"); }
-  public async solve_captcha(): Promise<any> { return this._send("solve_captcha"); }
-  public async gui_drag_and_drop(drag_selector: string, drop_selector: string, timeframe: number = 0.35): Promise<any> { return this._send("gui_drag_and_drop", { drag_selector, drop_selector, timeframe }); }
-  public async gui_hover_element(selector: string): Promise<any> { return this._send("gui_hover_element", { selector }); }
-  public async gui_write(text: string): Promise<any> { return this._send("gui_write", { text }); }
-  public async gui_press_keys(keys_list: string[]): Promise<any> { return this._send("gui_press_keys", { keys: keys_list }); }
-
-  public async select_option_by_text(selector: string, text: string): Promise<any> { return this._send("select_option_by_text", { selector, text }); }
-  public async select_option_by_value(selector: string, value: string): Promise<any> { return this._send("select_option_by_value", { selector, value }); }
-  public async select_option_by_index(selector: string, index: number): Promise<any> { return this._send("select_option_by_index", { selector, index }); }
-
-  public async open_new_tab(url: string): Promise<any> { return this._send("open_new_tab", { url }); }
-  public async open_new_window(url: string): Promise<any> { return this._send("open_new_window", { url }); }
-  public async switch_to_tab(index: number = -1): Promise<any> { return this._send("switch_to_tab", { index }); }
-  public async switch_to_window(index: number = -1): Promise<any> { return this._send("switch_to_window", { index }); }
-  public async close_active_tab(): Promise<any> { return this._send("close_active_tab"); }
-  public async maximize(): Promise<any> { return this._send("maximize"); }
-  public async minimize(): Promise<any> { return this._send("minimize"); }
-  public async medimize(): Promise<any> { return this._send("medimize"); }
-  public async tile_windows(): Promise<any> { return this._send("tile_windows"); }
-
-  public async get_text(selector: string = "body"): Promise<any> { return this._send("get_text", { selector }); }
-  public async get_title(): Promise<any> { return this._send("get_title"); }
-  public async get_current_url(): Promise<any> { return this._send("get_current_url"); }
-  public async get_page_source(): Promise<any> { return this._send("get_page_source"); }
-  public async get_html(selector?: string): Promise<any> { return this._send("get_html", { selector }); }
-  public async get_attribute(selector: string, attribute: string): Promise<any> { return this._send("get_attribute", { selector, attribute }); }
-  public async get_element_attributes(selector: string): Promise<any> { return this._send("get_element_attributes", { selector }); }
-  public async get_user_agent(): Promise<any> { return this._send("get_user_agent"); }
-  public async get_cookie_string(): Promise<any> { return this._send("get_cookie_string"); }
-  public async get_element_rect(selector: string): Promise<any> { return this._send("get_element_rect", { selector }); }
-  public async get_window_rect(): Promise<any> { return this._send("get_window_rect"); }
-  public async get_screen_rect(): Promise<any> { return this._send("get_screen_rect"); }
-  public async is_element_visible(selector: string): Promise<any> { return this._send("is_element_visible", { selector }); }
-  public async is_text_visible(text: string): Promise<any> { return this._send("is_text_visible", { text }); }
-  public async is_checked(selector: string): Promise<any> { return this._send("is_checked", { selector }); }
-  public async is_selected(selector: string): Promise<any> { return this._send("is_selected", { selector }); }
-  public async is_online(): Promise<any> { return this._send("is_online"); }
-  public async get_performance_metrics(): Promise<any> { return this._send("get_performance_metrics"); }
-
-  public async get_all_cookies(): Promise<any> { return this._send("get_all_cookies"); }
-  public async save_cookies(name: string = "cookies.txt"): Promise<any> {
-    const res = await this._send("save_cookies");
+  public async open_url(url: string, opts?: CallOptions): Promise<ActionResult<"open_url">> { return this._send("open_url", { url }, opts); }
+  public async reload(ignore_cache: boolean = true, script?: string, opts?: CallOptions): Promise<ActionResult<"reload">> { return this._send("reload", { ignore_cache, script_to_evaluate_on_load: script }, opts); }
+  public async refresh(opts?: CallOptions): Promise<ActionResult<"refresh">> { return this._send("refresh", {}, opts); }
+  public async go_back(opts?: CallOptions): Promise<ActionResult<"go_back">> { return this._send("go_back", {}, opts); }
+  public async go_forward(opts?: CallOptions): Promise<ActionResult<"go_forward">> { return this._send("go_forward", {}, opts); }
+  public async internalize_links(opts?: CallOptions): Promise<ActionResult<"internalize_links">> { return this._send("internalize_links", {}, opts); }
+  public async get_navigation_history(opts?: CallOptions): Promise<ActionResult<"get_navigation_history">> { return this._send("get_navigation_history", {}, opts); }
+
+  public async click(selector: string, timeout?: number, opts?: CallOptions): Promise<ActionResult<"click">> { return this._send("click", { selector, timeout }, opts); }
+  public async click_if_visible(selector: string, opts?: CallOptions): Promise<ActionResult<"click_if_visible">> { return this._send("click_if_visible", { selector }, opts); }
+  public async click_visible_elements(selector: string, limit: number = 0, opts?: CallOptions): Promise<ActionResult<"click_visible_elements">> { return this._send("click_visible_elements", { selector, limit }, opts); }
+  public async click_nth_element(selector: string, number: number = 1, opts?: CallOptions): Promise<ActionResult<"click_nth_element">> { return this._send("click_nth_element", { selector, number }, opts); }
+  public async click_nth_visible_element(selector: string, number: number = 1, opts?: CallOptions): Promise<ActionResult<"click_nth_visible_element">> { return this._send("click_nth_visible_element", { selector, number }, opts); }
+  public async click_link(text: string, opts?: CallOptions): Promise<ActionResult<"click_link">> { return this._send("click_link", { text }, opts); }
+  public async click_active_element(opts?: CallOptions): Promise<ActionResult<"click_active_element">> { return this._send("click_active_element", {}, opts); }
+  public async mouse_click(selector: string, opts?: CallOptions): Promise<ActionResult<"mouse_click">> { return this._send("mouse_click", { selector }, opts); }
+  public async nested_click(parent_selector: string, selector: string, opts?: CallOptions): Promise<ActionResult<"nested_click">> { return this._send("nested_click", { parent_selector, selector }, opts); }
+  public async click_with_offset(selector: string, x: number, y: number, center: boolean = false, opts?: CallOptions): Promise<ActionResult<"click_with_offset">> { return this._send("click_with_offset", { selector, x, y, center }, opts); }
+
+  public async type(selector: string, text: string, timeout?: number, opts?: CallOptions): Promise<ActionResult<"type">> { return this._send("type", { selector, text, timeout }, opts); }
+  public async press_keys(selector: string, text: string, opts?: CallOptions): Promise<ActionResult<"press_keys">> { return this._send("press_keys", { selector, text }, opts); }
+  public async send_keys(selector: string, text: string, opts?: CallOptions): Promise<ActionResult<"send_keys">> { return this._send("send_keys", { selector, text }, opts); }
+  public async set_value(selector: string, text: string, opts?: CallOptions): Promise<ActionResult<"set_value">> { return this._send("set_value", { selector, text }, opts); }
+  public async clear(selector: string, opts?: CallOptions): Promise<ActionResult<"clear">> { return this._send("clear", { selector }, opts); }
+  public async clear_input(selector: string, opts?: CallOptions): Promise<ActionResult<"clear_input">> { return this._send("clear_input", { selector }, opts); }
+  public async submit(selector: string, opts?: CallOptions): Promise<ActionResult<"submit">> { return this._send("submit", { selector }, opts); }
+  public async focus(selector: string, opts?: CallOptions): Promise<ActionResult<"focus">> { return this._send("focus", { selector }, opts); }
+
+  public async gui_click_element(selector: string, timeframe: number = 0.25, opts?: CallOptions): Promise<ActionResult<"gui_click_element">> { return this._send("gui_click_element", { selector, timeframe }, opts); }
+  public async gui_click_x_y(x: number, y: number, timeframe: number = 0.25, opts?: CallOptions): Promise<ActionResult<"gui_click_x_y">> { return this._send("gui_click_x_y", { x, y, timeframe }, opts); }
+  public async gui_click_captcha(opts?: CallOptions): Promise<ActionResult<"gui_click_captcha">> { return this._send("gui_click_captcha", {}, opts); }
+  public async solve_captcha(opts?: CallOptions): Promise<ActionResult<"solve_captcha">> { return this._send("solve_captcha", {}, opts); }
+  public async gui_drag_and_drop(drag_selector: string, drop_selector: string, timeframe: number = 0.35, opts?: CallOptions): Promise<ActionResult<"gui_drag_and_drop">> { return this._send("gui_drag_and_drop", { drag_selector, drop_selector, timeframe }, opts); }
+  public async gui_hover_element(selector: string, opts?: CallOptions): Promise<ActionResult<"gui_hover_element">> { return this._send("gui_hover_element", { selector }, opts); }
+  public async gui_write(text: string, opts?: CallOptions): Promise<ActionResult<"gui_write">> { return this._send("gui_write", { text }, opts); }
+  public async gui_press_keys(keys_list: string[], opts?: CallOptions): Promise<ActionResult<"gui_press_keys">> { return this._send("gui_press_keys", { keys: keys_list }, opts); }
+
+  public async select_option_by_text(selector: string, text: string, opts?: CallOptions): Promise<ActionResult<"select_option_by_text">> { return this._send("select_option_by_text", { selector, text }, opts); }
+  public async select_option_by_value(selector: string, value: string, opts?: CallOptions): Promise<ActionResult<"select_option_by_value">> { return this._send("select_option_by_value", { selector, value }, opts); }
+  public async select_option_by_index(selector: string, index: number, opts?: CallOptions): Promise<ActionResult<"select_option_by_index">> { return this._send("select_option_by_index", { selector, index }, opts); }
+
+  public async open_new_tab(url: string, opts?: CallOptions): Promise<ActionResult<"open_new_tab">> { return this._reemulate(await this._send("open_new_tab", { url }, opts), opts); }
+  public async open_new_window(url: string, opts?: CallOptions): Promise<ActionResult<"open_new_window">> { return this._reemulate(await this._send("open_new_window", { url }, opts), opts); }
+  public async switch_to_tab(index: number = -1, opts?: CallOptions): Promise<ActionResult<"switch_to_tab">> { return this._reemulate(await this._send("switch_to_tab", { index }, opts), opts); }
+  public async switch_to_window(index: number = -1, opts?: CallOptions): Promise<ActionResult<"switch_to_window">> { return this._reemulate(await this._send("switch_to_window", { index }, opts), opts); }
+  public async close_active_tab(opts?: CallOptions): Promise<ActionResult<"close_active_tab">> { return this._send("close_active_tab", {}, opts); }
+  public async maximize(opts?: CallOptions): Promise<ActionResult<"maximize">> { return this._send("maximize", {}, opts); }
+  public async minimize(opts?: CallOptions): Promise<ActionResult<"minimize">> { return this._send("minimize", {}, opts); }
+  public async medimize(opts?: CallOptions): Promise<ActionResult<"medimize">> { return this._send("medimize", {}, opts); }
+  public async tile_windows(opts?: CallOptions): Promise<ActionResult<"tile_windows">> { return this._send("tile_windows", {}, opts); }
+
+  public async get_text(selector: string = "body", opts?: CallOptions): Promise<ActionResult<"get_text">> { return this._send("get_text", { selector }, opts); }
+  public async get_title(opts?: CallOptions): Promise<ActionResult<"get_title">> { return this._send("get_title", {}, opts); }
+  public async get_current_url(opts?: CallOptions): Promise<ActionResult<"get_current_url">> { return this._send("get_current_url", {}, opts); }
+  public async get_page_source(opts?: CallOptions): Promise<ActionResult<"get_page_source">> { return this._send("get_page_source", {}, opts); }
+  public async get_html(selector?: string, opts?: CallOptions): Promise<ActionResult<"get_html">> { return this._send("get_html", { selector }, opts); }
+  public async get_attribute(selector: string, attribute: string, opts?: CallOptions): Promise<ActionResult<"get_attribute">> { return this._send("get_attribute", { selector, attribute }, opts); }
+  public async get_element_attributes(selector: string, opts?: CallOptions): Promise<ActionResult<"get_element_attributes">> { return this._send("get_element_attributes", { selector }, opts); }
+  public async get_user_agent(opts?: CallOptions): Promise<ActionResult<"get_user_agent">> { return this._send("get_user_agent", {}, opts); }
+  public async get_cookie_string(opts?: CallOptions): Promise<ActionResult<"get_cookie_string">> { return this._send("get_cookie_string", {}, opts); }
+  public async get_element_rect(selector: string, opts?: CallOptions): Promise<ActionResult<"get_element_rect">> { return this._send("get_element_rect", { selector }, opts); }
+  public async get_window_rect(opts?: CallOptions): Promise<ActionResult<"get_window_rect">> { return this._send("get_window_rect", {}, opts); }
+  public async get_screen_rect(opts?: CallOptions): Promise<ActionResult<"get_screen_rect">> { return this._send("get_screen_rect", {}, opts); }
+  public async is_element_visible(selector: string, opts?: CallOptions): Promise<ActionResult<"is_element_visible">> { return this._send("is_element_visible", { selector }, opts); }
+  public async is_text_visible(text: string, opts?: CallOptions): Promise<ActionResult<"is_text_visible">> { return this._send("is_text_visible", { text }, opts); }
+  public async is_checked(selector: string, opts?: CallOptions): Promise<ActionResult<"is_checked">> { return this._send("is_checked", { selector }, opts); }
+  public async is_selected(selector: string, opts?: CallOptions): Promise<ActionResult<"is_selected">> { return this._send("is_selected", { selector }, opts); }
+  public async is_online(opts?: CallOptions): Promise<ActionResult<"is_online">> { return this._send("is_online", {}, opts); }
+  public async get_performance_metrics(opts?: CallOptions): Promise<ActionResult<"get_performance_metrics">> { return this._send("get_performance_metrics", {}, opts); }
+
+  public async get_all_cookies(opts?: CallOptions): Promise<ActionResult<"get_all_cookies">> { return this._send("get_all_cookies", {}, opts); }
+  public async save_cookies(name: string = "cookies.txt", opts?: CallOptions): Promise<FileResult | ActionResult<"save_cookies">> {
+    const res = await this._send("save_cookies", {}, opts);
     if (res.status === "ok" && res.cookies) {
       try {
-        fs.writeFileSync(name, JSON.stringify(res.cookies, null, 4));
-        return { status: "ok", path: path.resolve(name) };
+        return this._file_result(await this._write_artifact(name, JSON.stringify(res.cookies, null, 4), "save_cookies"));
       } catch (e: any) {
-        return { status: "error", error: `Failed to write local file: ${e.message}` };
+        return this._local_error(`Failed to write local file: ${e.message}`, "save_cookies", opts);
       }
     }
     return res;
   }
-  public async load_cookies(name: string = "cookies.txt", cookies_list?: any[]): Promise<any> {
+  public async load_cookies(name: string = "cookies.txt", cookies_list?: Cookie[], opts?: CallOptions): Promise<ActionResult<"load_cookies">> {
     let finalCookies = cookies_list;
     if (!finalCookies && name) {
       try {
@@ -441,56 +1261,57 @@ export class BrowserClient {
           const fileData = fs.readFileSync(name, 'utf-8');
           finalCookies = JSON.parse(fileData);
         } else {
-          return { status: "error", error: `Local cookie file not found: ${name}` };
+          return this._local_error(`Local cookie file not found: ${name}`, "load_cookies", opts);
         }
       } catch (e: any) {
-        return { status: "error", error: `Failed to read local file: ${e.message}` };
+        if (e instanceof BrowserError) throw e;
+        return this._local_error(`Failed to read local file: ${e.message}`, "load_cookies", opts);
       }
     }
-    return this._send("load_cookies", { name, cookies: finalCookies });
+    return this._send("load_cookies", { name, cookies: finalCookies }, opts);
   }
-  public async clear_cookies(): Promise<any> { return this._send("clear_cookies"); }
+  public async clear_cookies(opts?: CallOptions): Promise<ActionResult<"clear_cookies">> { return this._send("clear_cookies", {}, opts); }
   
-  public async get_local_storage_item(key: string): Promise<any> { return this._send("get_local_storage_item", { key }); }
-  public async set_local_storage_item(key: string, value: string): Promise<any> { return this._send("set_local_storage_item", { key, value }); }
-  public async get_session_storage_item(key: string): Promise<any> { return this._send("get_session_storage_item", { key }); }
-  public async set_session_storage_item(key: string, value: string): Promise<any> { return this._send("set_session_storage_item", { key, value }); }
-  public async export_session(): Promise<any> { return this._send("get_storage_state"); }
-  public async import_session(state_dict: any): Promise<any> { return this._send("set_storage_state", { state: state_dict }); }
-
-  public async highlight(selector: string): Promise<any> { return this._send("highlight", { selector }); }
-  public async highlight_overlay(selector: string): Promise<any> { return this._send("highlight_overlay", { selector }); }
-  public async remove_element(selector: string): Promise<any> { return this._send("remove_element", { selector }); }
-  public async flash(selector: string, duration: number = 1): Promise<any> { return this._send("flash", { selector, duration }); }
-
-  public async get_mfa_code(totp_key: string): Promise<any> { return this._send("get_mfa_code", { totp_key }); }
-  public async enter_mfa_code(selector: string, totp_key: string): Promise<any> { return this._send("enter_mfa_code", { selector, totp_key }); }
-  public async grant_permissions(permissions: string): Promise<any> { return this._send("grant_permissions", { permissions }); }
-  public async execute_script(script: string): Promise<any> { return this._send("execute_script", { script }); }
-  public async evaluate(expression: string): Promise<any> { return this._send("evaluate", { expression }); }
-  public async block_urls(patterns: string[]): Promise<any> { return this._send("block_urls", { patterns }); }
-
-  public async assert_text(text: string, selector: string = "html", screenshot: boolean = true): Promise<any> { return this._handle_assertion("assert_text", { text, selector, screenshot }); }
-  public async assert_exact_text(text: string, selector: string = "html", screenshot: boolean = true): Promise<any> { return this._handle_assertion("assert_exact_text", { text, selector, screenshot }); }
-  public async assert_element(selector: string, screenshot: boolean = true): Promise<any> { return this._handle_assertion("assert_element", { selector, screenshot }); }
-  public async assert_element_present(selector: string, screenshot: boolean = true): Promise<any> { return this._handle_assertion("assert_element_present", { selector, screenshot }); }
-  public async assert_element_absent(selector: string, screenshot: boolean = true): Promise<any> { return this._handle_assertion("assert_element_absent", { selector, screenshot }); }
-  public async assert_element_not_visible(selector: string, screenshot: boolean = true): Promise<any> { return this._handle_assertion("assert_element_not_visible", { selector, screenshot }); }
-  public async assert_text_not_visible(text: string, selector: string = "html", screenshot: boolean = true): Promise<any> { return this._handle_assertion("assert_text_not_visible", { text, selector, screenshot }); }
-  public async assert_title(title: string, screenshot: boolean = true): Promise<any> { return this._handle_assertion("assert_title", { title, screenshot }); }
-  public async assert_url(url_substring: string, screenshot: boolean = true): Promise<any> { return this._handle_assertion("assert_url", { url: url_substring, screenshot }); }
-  public async assert_attribute(selector: string, attribute: string, value: string, screenshot: boolean = true): Promise<any> { return this._handle_assertion("assert_attribute", { selector, attribute, value, screenshot }); }
-
-  public async scroll_into_view(selector: string): Promise<any> { return this._send("scroll_into_view", { selector }); }
-  public async scroll_to_bottom(): Promise<any> { return this._send("scroll_to_bottom"); }
-  public async scroll_to_top(): Promise<any> { return this._send("scroll_to_top"); }
-  public async scroll_down(amount: number = 25): Promise<any> { return this._send("scroll_down", { amount }); }
-  public async scroll_up(amount: number = 25): Promise<any> { return this._send("scroll_up", { amount }); }
-  public async scroll_to_y(y: number): Promise<any> { return this._send("scroll_to_y", { y }); }
-  public async sleep(seconds: number): Promise<any> { return this._send("sleep", { seconds }); }
-  public async wait_for_element(selector: string, timeout?: number): Promise<any> { return this._send("wait_for_element", { selector, timeout }); }
-  public async wait_for_text(text: string, selector: string = "html", timeout?: number): Promise<any> { return this._send("wait_for_text", { text, selector, timeout }); }
-  public async wait_for_element_present(selector: string, timeout?: number): Promise<any> { return this._send("wait_for_element_present", { selector, timeout }); }
-  public async wait_for_element_absent(selector: string, timeout?: number): Promise<any> { return this._send("wait_for_element_absent", { selector, timeout }); }
-  public async wait_for_network_idle(): Promise<any> { return this._send("wait_for_network_idle"); }
+  public async get_local_storage_item(key: string, opts?: CallOptions): Promise<ActionResult<"get_local_storage_item">> { return this._send("get_local_storage_item", { key }, opts); }
+  public async set_local_storage_item(key: string, value: string, opts?: CallOptions): Promise<ActionResult<"set_local_storage_item">> { return this._send("set_local_storage_item", { key, value }, opts); }
+  public async get_session_storage_item(key: string, opts?: CallOptions): Promise<ActionResult<"get_session_storage_item">> { return this._send("get_session_storage_item", { key }, opts); }
+  public async set_session_storage_item(key: string, value: string, opts?: CallOptions): Promise<ActionResult<"set_session_storage_item">> { return this._send("set_session_storage_item", { key, value }, opts); }
+  public async export_session(opts?: CallOptions): Promise<ActionResult<"get_storage_state">> { return this._send("get_storage_state", {}, opts); }
+  public async import_session(state_dict: StorageState, opts?: CallOptions): Promise<ActionResult<"set_storage_state">> { return this._send("set_storage_state", { state: state_dict }, opts); }
+
+  public async highlight(selector: string, opts?: CallOptions): Promise<ActionResult<"highlight">> { return this._send("highlight", { selector }, opts); }
+  public async highlight_overlay(selector: string, opts?: CallOptions): Promise<ActionResult<"highlight_overlay">> { return this._send("highlight_overlay", { selector }, opts); }
+  public async remove_element(selector: string, opts?: CallOptions): Promise<ActionResult<"remove_element">> { return this._send("remove_element", { selector }, opts); }
+  public async flash(selector: string, duration: number = 1, opts?: CallOptions): Promise<ActionResult<"flash">> { return this._send("flash", { selector, duration }, opts); }
+
+  public async get_mfa_code(totp_key: string, opts?: CallOptions): Promise<ActionResult<"get_mfa_code">> { return this._send("get_mfa_code", { totp_key }, opts); }
+  public async enter_mfa_code(selector: string, totp_key: string, opts?: CallOptions): Promise<ActionResult<"enter_mfa_code">> { return this._send("enter_mfa_code", { selector, totp_key }, opts); }
+  public async grant_permissions(permissions: string, opts?: CallOptions): Promise<ActionResult<"grant_permissions">> { return this._send("grant_permissions", { permissions }, opts); }
+  public async execute_script(script: string, opts?: CallOptions): Promise<ActionResult<"execute_script">> { return this._send("execute_script", { script }, opts); }
+  public async evaluate(expression: string, opts?: CallOptions): Promise<ActionResult<"evaluate">> { return this._send("evaluate", { expression }, opts); }
+  public async block_urls(patterns: string[], opts?: CallOptions): Promise<ActionResult<"block_urls">> { return this._send("block_urls", { patterns }, opts); }
+
+  public async assert_text(text: string, selector: string = "html", screenshot: boolean = true, opts?: CallOptions): Promise<true> { return this._handle_assertion("assert_text", { text, selector, screenshot }, opts); }
+  public async assert_exact_text(text: string, selector: string = "html", screenshot: boolean = true, opts?: CallOptions): Promise<true> { return this._handle_assertion("assert_exact_text", { text, selector, screenshot }, opts); }
+  public async assert_element(selector: string, screenshot: boolean = true, opts?: CallOptions): Promise<true> { return this._handle_assertion("assert_element", { selector, screenshot }, opts); }
+  public async assert_element_present(selector: string, screenshot: boolean = true, opts?: CallOptions): Promise<true> { return this._handle_assertion("assert_element_present", { selector, screenshot }, opts); }
+  public async assert_element_absent(selector: string, screenshot: boolean = true, opts?: CallOptions): Promise<true> { return this._handle_assertion("assert_element_absent", { selector, screenshot }, opts); }
+  public async assert_element_not_visible(selector: string, screenshot: boolean = true, opts?: CallOptions): Promise<true> { return this._handle_assertion("assert_element_not_visible", { selector, screenshot }, opts); }
+  public async assert_text_not_visible(text: string, selector: string = "html", screenshot: boolean = true, opts?: CallOptions): Promise<true> { return this._handle_assertion("assert_text_not_visible", { text, selector, screenshot }, opts); }
+  public async assert_title(title: string, screenshot: boolean = true, opts?: CallOptions): Promise<true> { return this._handle_assertion("assert_title", { title, screenshot }, opts); }
+  public async assert_url(url_substring: string, screenshot: boolean = true, opts?: CallOptions): Promise<true> { return this._handle_assertion("assert_url", { url: url_substring, screenshot }, opts); }
+  public async assert_attribute(selector: string, attribute: string, value: string, screenshot: boolean = true, opts?: CallOptions): Promise<true> { return this._handle_assertion("assert_attribute", { selector, attribute, value, screenshot }, opts); }
+
+  public async scroll_into_view(selector: string, opts?: CallOptions): Promise<ActionResult<"scroll_into_view">> { return this._send("scroll_into_view", { selector }, opts); }
+  public async scroll_to_bottom(opts?: CallOptions): Promise<ActionResult<"scroll_to_bottom">> { return this._send("scroll_to_bottom", {}, opts); }
+  public async scroll_to_top(opts?: CallOptions): Promise<ActionResult<"scroll_to_top">> { return this._send("scroll_to_top", {}, opts); }
+  public async scroll_down(amount: number = 25, opts?: CallOptions): Promise<ActionResult<"scroll_down">> { return this._send("scroll_down", { amount }, opts); }
+  public async scroll_up(amount: number = 25, opts?: CallOptions): Promise<ActionResult<"scroll_up">> { return this._send("scroll_up", { amount }, opts); }
+  public async scroll_to_y(y: number, opts?: CallOptions): Promise<ActionResult<"scroll_to_y">> { return this._send("scroll_to_y", { y }, opts); }
+  public async sleep(seconds: number, opts?: CallOptions): Promise<ActionResult<"sleep">> { return this._send("sleep", { seconds }, opts); }
+  public async wait_for_element(selector: string, timeout?: number, opts?: CallOptions): Promise<ActionResult<"wait_for_element">> { return this._send("wait_for_element", { selector, timeout }, opts); }
+  public async wait_for_text(text: string, selector: string = "html", timeout?: number, opts?: CallOptions): Promise<ActionResult<"wait_for_text">> { return this._send("wait_for_text", { text, selector, timeout }, opts); }
+  public async wait_for_element_present(selector: string, timeout?: number, opts?: CallOptions): Promise<ActionResult<"wait_for_element_present">> { return this._send("wait_for_element_present", { selector, timeout }, opts); }
+  public async wait_for_element_absent(selector: string, timeout?: number, opts?: CallOptions): Promise<ActionResult<"wait_for_element_absent">> { return this._send("wait_for_element_absent", { selector, timeout }, opts); }
+  public async wait_for_network_idle(opts?: CallOptions): Promise<ActionResult<"wait_for_network_idle">> { return this._send("wait_for_network_idle", {}, opts); }
 }
\ No newline at end of file
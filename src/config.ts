@@ -5,6 +5,13 @@ import path from 'path';
 // ---------------------------------------------------------
 export const REDIS_PREFIX = "ISOAUTOMATE:";
 export const WORKERS_SET = `${REDIS_PREFIX}workers`;
+// <prefix>lease:<worker>:<browser_type>:<browser_id>, refreshed by the holder
+export const LEASE_PREFIX = `${REDIS_PREFIX}lease:`;
+// <prefix>cancel:<task_id>, set when the client no longer wants a task
+export const CANCEL_PREFIX = `${REDIS_PREFIX}cancel:`;
+// Hash of named profiles (name -> JSON) and their per-session locks
+export const PROFILES_KEY = `${REDIS_PREFIX}profiles`;
+export const PROFILE_LOCK_PREFIX = `${REDIS_PREFIX}profile_lock:`;
 
 // File System Paths
 export const SCREENSHOT_FOLDER = "screenshots";
@@ -14,4 +21,6 @@ export const ASSERTION_FOLDER = path.join(SCREENSHOT_FOLDER, "failures");
 // DEFAULTS
 // ---------------------------------------------------------
 // In Node.js, undefined acts like None in Python
-export const DEFAULT_REDIS_DB = 0;
\ No newline at end of file
+export const DEFAULT_REDIS_DB = 0;
+export const DEFAULT_LEASE_TTL = 60;
+export const DEFAULT_TIMEOUT = 60;
@@ -0,0 +1,66 @@
+import Redis, { Redis as RedisClient } from 'ioredis';
+import * as dotenv from 'dotenv';
+
+import { DEFAULT_REDIS_DB } from './config';
+import { BrowserError } from './errors';
+
+// Load environment variables immediately
+dotenv.config();
+
+export interface RedisConnectionOptions {
+  redisUrl?: string;
+  redisHost?: string;
+  redisPort?: number | string;
+  redisPassword?: string;
+  redisDb?: number;
+  redisSsl?: boolean;
+  envFile?: string;
+}
+
+/**
+ * Opens a Redis connection from explicit options, falling back to the
+ * REDIS_* environment variables (and `.env`).
+ */
+export function connectRedis(options: RedisConnectionOptions = {}): RedisClient {
+  // Load custom env file if provided
+  if (options.envFile) {
+    dotenv.config({ path: options.envFile, override: true });
+  }
+
+  const envUrl = process.env.REDIS_URL;
+  const envHost = process.env.REDIS_HOST;
+  const envPort = process.env.REDIS_PORT;
+  const envPass = process.env.REDIS_PASSWORD;
+  const envDb = process.env.REDIS_DB;
+  const envSsl = (process.env.REDIS_SSL || "false").toLowerCase() === "true" || process.env.REDIS_SSL === "1";
+
+  const redisUrl = options.redisUrl || envUrl;
+  const host = options.redisHost || envHost;
+  const port = options.redisPort ? String(options.redisPort) : envPort;
+  const password = options.redisPassword || envPass;
+  const db = options.redisDb !== undefined ? options.redisDb : (envDb ? parseInt(envDb) : DEFAULT_REDIS_DB);
+  const ssl = options.redisSsl !== undefined ? options.redisSsl : envSsl;
+
+  if (!redisUrl && !host) {
+    throw new BrowserError("Missing Redis Configuration.");
+  }
+
+  try {
+    if (redisUrl) {
+      return new Redis(redisUrl, {
+        db: db,
+        tls: ssl ? {} : undefined
+      });
+    }
+    const portNum = port ? parseInt(port) : 6379;
+    return new Redis({
+      host: host,
+      port: portNum,
+      password: password,
+      db: db,
+      tls: ssl ? {} : undefined
+    });
+  } catch (e: any) {
+    throw new BrowserError(`Failed to initialize Redis connection: ${e.message}`);
+  }
+}
@@ -0,0 +1,152 @@
+import { BrowserError } from './errors';
+
+export interface DeviceDescriptor {
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+  /** Omitted for desktops: the browser keeps its own. */
+  userAgent?: string;
+}
+
+export type DeviceName =
+  | "iPhone 15"
+  | "iPhone 15 Pro Max"
+  | "iPhone SE"
+  | "Pixel 7"
+  | "Galaxy S24"
+  | "iPad Mini"
+  | "iPad Air"
+  | "iPad Pro 11"
+  | "Laptop"
+  | "Desktop 1080p"
+  | "Desktop 1440p"
+  | "Desktop HiDPI";
+
+/**
+ * Everything `acquire({ emulation })` and `browser.emulate()` can change.
+ * Explicit fields override the matching values of `device`.
+ */
+export interface EmulationOptions {
+  /** A built-in preset name (see `DEVICES`) or a custom descriptor. */
+  device?: DeviceName | DeviceDescriptor;
+  viewport?: { width: number; height: number };
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  userAgent?: string;
+  /** BCP 47 tag, e.g. `de-DE`; sets `Intl` defaults and `Accept-Language`. */
+  locale?: string;
+  /** IANA zone, e.g. `Europe/Berlin`. */
+  timezone?: string;
+  /** Also grants the geolocation permission. */
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  colorScheme?: "light" | "dark" | "no-preference";
+}
+
+const IOS_UA = (device: string, version: string) =>
+  `Mozilla/5.0 (${device}; CPU ${device === "iPad" ? "OS" : "iPhone OS"} ${version} like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/${version.replace(/_/g, ".")} Mobile/15E148 Safari/604.1`;
+const ANDROID_UA = (model: string) =>
+  `Mozilla/5.0 (Linux; Android 14; ${model}) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Mobile Safari/537.36`;
+
+// Viewports are CSS pixels of the visible page area
+export const DEVICES: Record<DeviceName, DeviceDescriptor> = {
+  "iPhone 15": { viewport: { width: 393, height: 659 }, deviceScaleFactor: 3, isMobile: true, hasTouch: true, userAgent: IOS_UA("iPhone", "17_0") },
+  "iPhone 15 Pro Max": { viewport: { width: 430, height: 739 }, deviceScaleFactor: 3, isMobile: true, hasTouch: true, userAgent: IOS_UA("iPhone", "17_0") },
+  "iPhone SE": { viewport: { width: 375, height: 553 }, deviceScaleFactor: 2, isMobile: true, hasTouch: true, userAgent: IOS_UA("iPhone", "17_0") },
+  "Pixel 7": { viewport: { width: 412, height: 839 }, deviceScaleFactor: 2.625, isMobile: true, hasTouch: true, userAgent: ANDROID_UA("Pixel 7") },
+  "Galaxy S24": { viewport: { width: 360, height: 780 }, deviceScaleFactor: 3, isMobile: true, hasTouch: true, userAgent: ANDROID_UA("SM-S921B") },
+  "iPad Mini": { viewport: { width: 768, height: 1024 }, deviceScaleFactor: 2, isMobile: true, hasTouch: true, userAgent: IOS_UA("iPad", "17_0") },
+  "iPad Air": { viewport: { width: 820, height: 1180 }, deviceScaleFactor: 2, isMobile: true, hasTouch: true, userAgent: IOS_UA("iPad", "17_0") },
+  "iPad Pro 11": { viewport: { width: 834, height: 1194 }, deviceScaleFactor: 2, isMobile: true, hasTouch: true, userAgent: IOS_UA("iPad", "17_0") },
+  "Laptop": { viewport: { width: 1366, height: 768 }, deviceScaleFactor: 1, isMobile: false, hasTouch: false },
+  "Desktop 1080p": { viewport: { width: 1920, height: 1080 }, deviceScaleFactor: 1, isMobile: false, hasTouch: false },
+  "Desktop 1440p": { viewport: { width: 2560, height: 1440 }, deviceScaleFactor: 1, isMobile: false, hasTouch: false },
+  "Desktop HiDPI": { viewport: { width: 1440, height: 900 }, deviceScaleFactor: 2, isMobile: false, hasTouch: false }
+};
+
+export type CdpCommand = [cmd: string, params: Record<string, unknown>];
+
+/**
+ * The CDP commands that put a page into the emulated state, in order.
+ * `currentUserAgent` is set as the user agent when the options name none:
+ * it is needed when only the locale changes, because `Accept-Language` can
+ * only be overridden together with the user agent, and to undo the user
+ * agent of a device that was replaced.
+ */
+export function emulationCommands(options: EmulationOptions, currentUserAgent?: string): CdpCommand[] {
+  const device = resolveDevice(options);
+
+  const viewport = options.viewport ?? device?.viewport;
+  const deviceScaleFactor = options.deviceScaleFactor ?? device?.deviceScaleFactor;
+  const isMobile = options.isMobile ?? device?.isMobile;
+  const hasTouch = options.hasTouch ?? device?.hasTouch;
+  const userAgent = userAgentFor(options);
+  const commands: CdpCommand[] = [];
+
+  if (viewport || deviceScaleFactor !== undefined || isMobile !== undefined) {
+    // Zero keeps the browser's own value
+    commands.push(["Emulation.setDeviceMetricsOverride", {
+      width: viewport?.width ?? 0,
+      height: viewport?.height ?? 0,
+      deviceScaleFactor: deviceScaleFactor ?? 0,
+      mobile: isMobile ?? false
+    }]);
+  }
+  if (hasTouch !== undefined) {
+    commands.push(["Emulation.setTouchEmulationEnabled", hasTouch ? { enabled: true, maxTouchPoints: 5 } : { enabled: false }]);
+  }
+
+  const agent = userAgent ?? currentUserAgent;
+  if (agent) {
+    commands.push(["Emulation.setUserAgentOverride", options.locale ? { userAgent: agent, acceptLanguage: options.locale } : { userAgent: agent }]);
+  }
+  // Chrome refuses a second locale/timezone override until the first is cleared
+  if (options.locale) {
+    commands.push(["Emulation.setLocaleOverride", {}]);
+    commands.push(["Emulation.setLocaleOverride", { locale: options.locale }]);
+  }
+  if (options.timezone) {
+    commands.push(["Emulation.setTimezoneOverride", { timezoneId: "" }]);
+    commands.push(["Emulation.setTimezoneOverride", { timezoneId: options.timezone }]);
+  }
+
+  if (options.geolocation) {
+    const { latitude, longitude, accuracy = 100 } = options.geolocation;
+    commands.push(["Browser.grantPermissions", { permissions: ["geolocation"] }]);
+    commands.push(["Emulation.setGeolocationOverride", { latitude, longitude, accuracy }]);
+  }
+  if (options.colorScheme) {
+    commands.push(["Emulation.setEmulatedMedia", { features: [{ name: "prefers-color-scheme", value: options.colorScheme }] }]);
+  }
+  return commands;
+}
+
+// Fields a device preset sets
+const DEVICE_FIELDS = ["viewport", "deviceScaleFactor", "isMobile", "hasTouch", "userAgent"] as const;
+
+/**
+ * `options` applied over the emulation already in effect. A new `device`
+ * also drops the earlier device's fields and their explicit overrides, so
+ * switching from a phone to a laptop keeps neither the phone's user agent
+ * nor its touch support.
+ */
+export function mergeEmulation(current: EmulationOptions | null, options: EmulationOptions): EmulationOptions {
+  const base: EmulationOptions = { ...current };
+  if (options.device !== undefined) {
+    for (const field of DEVICE_FIELDS) delete base[field];
+  }
+  return { ...base, ...options };
+}
+
+/** The user agent the options set, from `userAgent` or the device preset. */
+export function userAgentFor(options: EmulationOptions): string | undefined {
+  return options.userAgent ?? resolveDevice(options)?.userAgent;
+}
+
+function resolveDevice(options: EmulationOptions): DeviceDescriptor | undefined {
+  if (typeof options.device !== 'string') return options.device;
+  const device = DEVICES[options.device];
+  if (!device) throw new BrowserError(`Unknown device preset: '${options.device}'`);
+  return device;
+}
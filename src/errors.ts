@@ -1,8 +1,155 @@
+/**
+ * Identifies the task an error belongs to. Fields are only set when known,
+ * e.g. a `SessionNotAcquiredError` has no worker or browser.
+ */
+export interface ErrorContext {
+  task_id?: string;
+  action?: string;
+  worker?: string;
+  browser_id?: string;
+}
+
 export class BrowserError extends Error {
-  constructor(message: string) {
+  public task_id?: string;
+  public action?: string;
+  public worker?: string;
+  public browser_id?: string;
+
+  constructor(message: string, context: ErrorContext = {}) {
     super(message);
     this.name = "BrowserError";
+    this.task_id = context.task_id;
+    this.action = context.action;
+    this.worker = context.worker;
+    this.browser_id = context.browser_id;
     // Ensures the stack trace is captured correctly
     Error.captureStackTrace(this, this.constructor);
   }
-}
\ No newline at end of file
+}
+
+/** The worker did not answer before the BLPOP timeout expired. */
+export class WorkerTimeoutError extends BrowserError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message, context);
+    this.name = "WorkerTimeoutError";
+  }
+}
+
+/**
+ * Raised by `SoftAssertions.assertAll()` when one or more soft checks failed.
+ * Each collected failure is kept in `failures`.
+ */
+export class SoftAssertionError extends BrowserError {
+  public failures: Error[];
+
+  constructor(failures: Error[]) {
+    const lines = failures.map((f, i) => `  ${i + 1}. ${f.message}`);
+    super(`${failures.length} soft assertion(s) failed:\n${lines.join("\n")}`, {});
+    this.name = "SoftAssertionError";
+    this.failures = failures;
+  }
+}
+
+/** Another session holds the profile's lock. */
+export class ProfileLockedError extends BrowserError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message, context);
+    this.name = "ProfileLockedError";
+  }
+}
+
+/** A replayed session sent a task that differs from the recording. */
+export class ReplayMismatchError extends BrowserError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message, context);
+    this.name = "ReplayMismatchError";
+  }
+}
+
+/** The caller aborted the action through its `AbortSignal`. */
+export class TaskCancelledError extends BrowserError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message, context);
+    this.name = "TaskCancelledError";
+  }
+}
+
+/** The worker could not locate the element targeted by the action. */
+export class ElementNotFoundError extends BrowserError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message, context);
+    this.name = "ElementNotFoundError";
+  }
+}
+
+/** An `assert_*` action reported `status: "fail"`. */
+export class AssertionFailedError extends BrowserError {
+  /** Location of the failure screenshot, when one could be written. */
+  public screenshot_path?: string;
+
+  constructor(message: string, context: ErrorContext = {}, screenshot_path?: string) {
+    super(message, context);
+    this.name = "AssertionFailedError";
+    this.screenshot_path = screenshot_path;
+  }
+}
+
+/**
+ * `expectScreenshot()` found more differing pixels than allowed.
+ * `screenshot_path` points at the diff image.
+ */
+export class VisualMismatchError extends AssertionFailedError {
+  public diff_pixels: number;
+  public diff_ratio: number;
+  /** The baseline file the capture was compared against. */
+  public baseline_path?: string;
+  /** Copy of the baseline stored next to the actual and diff images. */
+  public expected_path?: string;
+  public actual_path?: string;
+
+  constructor(
+    message: string,
+    context: ErrorContext,
+    details: { diff_pixels: number; diff_ratio: number; baseline_path?: string; expected_path?: string; actual_path?: string; diff_path?: string }
+  ) {
+    super(message, context, details.diff_path);
+    this.name = "VisualMismatchError";
+    this.diff_pixels = details.diff_pixels;
+    this.diff_ratio = details.diff_ratio;
+    this.baseline_path = details.baseline_path;
+    this.expected_path = details.expected_path;
+    this.actual_path = details.actual_path;
+  }
+}
+
+/** An action was attempted before `acquire()` or after `release()`. */
+export class SessionNotAcquiredError extends BrowserError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message, context);
+    this.name = "SessionNotAcquiredError";
+  }
+}
+
+/** `BrowserClient.attach()` was given a session whose browser was released or reclaimed. */
+export class SessionExpiredError extends BrowserError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message, context);
+    this.name = "SessionExpiredError";
+  }
+}
+
+/** Redis itself failed (connection refused, timeout, script error...). */
+export class RedisTransportError extends BrowserError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message, context);
+    this.name = "RedisTransportError";
+  }
+}
+
+/** Every matching browser is busy (or none are registered). */
+export class NoBrowsersAvailableError extends BrowserError {
+  constructor(message: string, context: ErrorContext = {}) {
+    super(message, context);
+    this.name = "NoBrowsersAvailableError";
+  }
+}
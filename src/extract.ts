@@ -0,0 +1,234 @@
+import * as path from 'path';
+
+import { ArtifactWriter } from './artifacts';
+import { BrowserClient, CallOptions } from './client';
+import { BrowserError } from './errors';
+
+// ---------------------------------------------------------
+// SCHEMA
+// ---------------------------------------------------------
+
+/** One value read from the page. */
+export interface ValueSpec {
+  /** CSS or XPath selector, relative to the enclosing item. Omitted: the item itself. */
+  selector?: string;
+  /** Read this attribute instead of the element's content. */
+  attribute?: string;
+  /** `text` (default, visible text), `html` (inner HTML) or `value` (form fields). */
+  source?: "text" | "html" | "value";
+  /**
+   * `number` strips everything but digits, sign and decimal point (null when
+   * nothing is left); `boolean` is whether the element exists.
+   */
+  type?: "string" | "number" | "boolean";
+  /** Every match, as an array, instead of the first one. */
+  many?: boolean;
+}
+
+/** Repeating items: one object per element matching `selector`. */
+export interface ListSpec {
+  selector: string;
+  items: ExtractSchema;
+}
+
+/** A bare string is shorthand for `{ selector }`. */
+export type FieldSpec = string | ValueSpec | ListSpec;
+
+export interface ExtractSchema {
+  [field: string]: FieldSpec;
+}
+
+type ValueOf<F> = F extends { type: "number" } ? number | null : F extends { type: "boolean" } ? boolean : string | null;
+
+type FieldOf<F> =
+  F extends string ? string | null :
+  F extends ListSpec ? Extracted<F["items"]>[] :
+  F extends { many: true } ? NonNullable<ValueOf<F>>[] :
+  ValueOf<F>;
+
+/** The data `extract()` returns for a schema. */
+export type Extracted<S> =
+  S extends ListSpec ? Extracted<S["items"]>[] :
+  { -readonly [K in keyof S]: FieldOf<S[K]> };
+
+export interface ExtractOptions extends CallOptions {
+  /**
+   * Selector of the "next page" control. While it exists, it is clicked and
+   * the next page extracted too: lists accumulate across pages, single
+   * values are kept from the first page.
+   */
+  next?: string;
+  /** Stop after this many pages (default 10). */
+  maxPages?: number;
+  /** Wait for this selector after each "next" click instead of for network idle. */
+  waitFor?: string;
+  /**
+   * Also write the data to this file through the artifact store. The format
+   * follows the extension: `.csv`, `.jsonl` (one row per line) or `.json`.
+   */
+  output?: string;
+}
+
+// ---------------------------------------------------------
+// PAGE SCRIPT
+// ---------------------------------------------------------
+// Reads the whole schema in one `evaluate` task and returns it as a JSON
+// string, so the data does not depend on how the worker serializes values.
+
+const EXTRACT_SCRIPT = `(function (schema, next) {
+  function all(root, selector) {
+    if (!selector) return [root];
+    if (/^(\\/|\\.\\/|\\(|\\.\\.)/.test(selector)) {
+      var found = document.evaluate(selector, root, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+      var nodes = [];
+      for (var i = 0; i < found.snapshotLength; i++) nodes.push(found.snapshotItem(i));
+      return nodes;
+    }
+    return Array.prototype.slice.call(root.querySelectorAll(selector));
+  }
+  function read(el, spec) {
+    if (spec.type === 'boolean') return !!el;
+    if (!el) return null;
+    var value;
+    if (spec.attribute) value = el.getAttribute(spec.attribute);
+    else if (spec.source === 'html') value = el.innerHTML;
+    else if (spec.source === 'value') value = el.value;
+    else value = el.innerText !== undefined ? el.innerText : el.textContent;
+    if (value === null || value === undefined) return null;
+    value = String(value).trim();
+    if (spec.type === 'number') {
+      var number = parseFloat(value.replace(/[^0-9.\\-]/g, ''));
+      return isNaN(number) ? null : number;
+    }
+    return value;
+  }
+  function field(root, spec) {
+    if (spec.items) return all(root, spec.selector).map(function (el) { return object(el, spec.items); });
+    var matches = all(root, spec.selector);
+    if (spec.many) return matches.map(function (el) { return read(el, spec); }).filter(function (v) { return v !== null; });
+    return read(matches[0], spec);
+  }
+  function object(root, fields) {
+    var out = {};
+    for (var key in fields) out[key] = field(root, fields[key]);
+    return out;
+  }
+  var data = schema.items && typeof schema.selector === 'string' ? field(document, schema) : object(document, schema);
+  return JSON.stringify({ data: data, hasNext: next ? all(document, next).length > 0 : false });
+})`;
+
+// ---------------------------------------------------------
+// EXTRACTION
+// ---------------------------------------------------------
+
+/**
+ * Reads structured data from the current page (and following pages, with
+ * `next`). Backs `BrowserClient.extract()`.
+ */
+export async function extract<S extends ExtractSchema | ListSpec>(
+  browser: BrowserClient,
+  writeArtifact: ArtifactWriter,
+  schema: S,
+  options: ExtractOptions = {}
+): Promise<Extracted<S>> {
+  const { next, maxPages = 10, waitFor, output, ...opts } = options;
+  const call: CallOptions = { ...opts, throwOnError: true };
+  const normalized = normalize(schema);
+  // A bad file name fails now, not after the whole crawl
+  const format = output !== undefined ? outputFormat(output) : undefined;
+
+  let merged: unknown = undefined;
+  let previous = "";
+  for (let page = 1; ; page++) {
+    const res = await browser.evaluate(`${EXTRACT_SCRIPT}(${JSON.stringify(normalized)}, ${JSON.stringify(next ?? null)})`, call);
+    const raw = res.status === "ok" ? res.result : undefined;
+    if (typeof raw !== 'string') throw new BrowserError("Extraction returned no data", { action: "evaluate" });
+
+    const { data, hasNext } = JSON.parse(raw) as { data: unknown; hasNext: boolean };
+    // A "next" control that no longer changes the page would loop forever
+    const fingerprint = JSON.stringify(data);
+    if (page > 1 && fingerprint === previous) break;
+    previous = fingerprint;
+    merged = page === 1 ? data : mergePages(merged, data);
+
+    if (!next || !hasNext || page >= maxPages) break;
+    await browser.click(next, undefined, call);
+    if (waitFor) await browser.wait_for_element(waitFor, undefined, call);
+    else await browser.wait_for_network_idle(call);
+  }
+
+  if (output && format) await writeArtifact(output, serialize(merged, format), "extract");
+  return merged as Extracted<S>;
+}
+
+// Lists grow with every page; everything else keeps its first-page value
+function mergePages(first: unknown, page: unknown): unknown {
+  if (Array.isArray(first) && Array.isArray(page)) return [...first, ...page];
+  if (!isRecord(first) || !isRecord(page)) return first;
+  const out: Record<string, unknown> = { ...first };
+  for (const [key, value] of Object.entries(page)) {
+    if (Array.isArray(out[key]) && Array.isArray(value)) out[key] = [...(out[key] as unknown[]), ...value];
+  }
+  return out;
+}
+
+// Expands string shorthands so the page script sees one shape
+function normalize(schema: ExtractSchema | ListSpec): object {
+  if (isListSpec(schema)) return { selector: schema.selector, items: normalize(schema.items) };
+  const out: Record<string, object> = {};
+  for (const [key, spec] of Object.entries(schema)) {
+    if (typeof spec === 'string') out[key] = { selector: spec };
+    else if (isListSpec(spec)) out[key] = normalize(spec);
+    else out[key] = { ...spec };
+  }
+  return out;
+}
+
+function isListSpec(spec: unknown): spec is ListSpec {
+  return isRecord(spec) && typeof spec.selector === 'string' && isRecord(spec.items);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ---------------------------------------------------------
+// OUTPUT
+// ---------------------------------------------------------
+
+type OutputFormat = ".csv" | ".jsonl" | ".json";
+
+function outputFormat(file: string): OutputFormat {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === ".csv" || ext === ".jsonl" || ext === ".json") return ext;
+  throw new BrowserError(`Unsupported extract output '${file}': use .csv, .jsonl or .json`, { action: "extract" });
+}
+
+function serialize(data: unknown, format: OutputFormat): string {
+  const rows = Array.isArray(data) ? data : [data];
+  switch (format) {
+    case ".json":
+      return JSON.stringify(data, null, 2);
+    case ".jsonl":
+      return rows.map((row) => JSON.stringify(row)).join("\n") + "\n";
+    case ".csv":
+      return toCsv(rows);
+  }
+}
+
+// Columns are the union of keys in first-seen order; nested values become JSON
+function toCsv(rows: unknown[]): string {
+  const records = rows.map((row) => isRecord(row) ? row : { value: row });
+  const columns: string[] = [];
+  for (const record of records) {
+    for (const key of Object.keys(record)) if (!columns.includes(key)) columns.push(key);
+  }
+
+  const cell = (value: unknown): string => {
+    if (value === null || value === undefined) return "";
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [columns.map(cell).join(","), ...records.map((record) => columns.map((c) => cell(record[c])).join(","))];
+  return lines.join("\r\n") + "\r\n";
+}
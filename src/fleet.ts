@@ -0,0 +1,175 @@
+import { Redis as RedisClient } from 'ioredis';
+
+import { LEASE_PREFIX, REDIS_PREFIX, WORKERS_SET } from './config';
+import { connectRedis, RedisConnectionOptions } from './connection';
+import { RedisTransportError } from './errors';
+import { scanKeys } from './utils';
+
+export interface BrowserRef {
+  worker: string;
+  browser_type: string;
+  browser_id: string;
+}
+
+export interface BrowserTypeCapacity {
+  browser_type: string;
+  free: number;
+  busy: number;
+}
+
+export interface WorkerStatus {
+  name: string;
+  /** Contents of the `<prefix><worker>:meta` hash. */
+  labels: Record<string, string>;
+  /** Tasks waiting in `<prefix><worker>:tasks`. */
+  queue_depth: number;
+  browsers: BrowserTypeCapacity[];
+  free: number;
+  busy: number;
+}
+
+export interface FleetSnapshot {
+  taken_at: string;
+  workers: WorkerStatus[];
+  /** Free/busy counts summed across workers, keyed by browser type. */
+  totals: Record<string, { free: number; busy: number }>;
+  /** Busy browsers whose lease has lapsed. */
+  stale: BrowserRef[];
+}
+
+export interface FleetInspectorOptions extends RedisConnectionOptions {
+  /** Existing connection to reuse. It is not closed by `close()`. */
+  redis?: RedisClient;
+}
+
+/**
+ * Read-only view of the fleet's Redis layout: registered workers, their
+ * `:free`/`:busy` sets per browser type, task queues and leases.
+ */
+export class FleetInspector {
+  private r: RedisClient;
+  private ownsConnection: boolean;
+
+  constructor(options: FleetInspectorOptions = {}) {
+    if (options.redis) {
+      this.r = options.redis;
+      this.ownsConnection = false;
+    } else {
+      this.r = connectRedis(options);
+      this.ownsConnection = true;
+    }
+  }
+
+  /** Names of every registered worker, sorted. */
+  public async listWorkers(): Promise<string[]> {
+    return this._guard(async () => (await this.r.smembers(WORKERS_SET)).sort());
+  }
+
+  /** Capacity, labels and queue depth of a single worker. */
+  public async worker(name: string): Promise<WorkerStatus> {
+    return this._guard(async () => {
+      const types = await this._browserTypes(name);
+
+      const pipeline = this.r.pipeline();
+      pipeline.hgetall(`${REDIS_PREFIX}${name}:meta`);
+      pipeline.llen(`${REDIS_PREFIX}${name}:tasks`);
+      for (const type of types) {
+        pipeline.scard(`${REDIS_PREFIX}${name}:${type}:free`);
+        pipeline.scard(`${REDIS_PREFIX}${name}:${type}:busy`);
+      }
+      const replies = ((await pipeline.exec()) ?? []).map(([err, value]) => {
+        if (err) throw err;
+        return value;
+      });
+
+      const browsers = types.map((browser_type, i) => ({
+        browser_type,
+        free: Number(replies[2 + i * 2]),
+        busy: Number(replies[3 + i * 2])
+      }));
+
+      return {
+        name,
+        labels: (replies[0] ?? {}) as Record<string, string>,
+        queue_depth: Number(replies[1]),
+        browsers,
+        free: browsers.reduce((sum, b) => sum + b.free, 0),
+        busy: browsers.reduce((sum, b) => sum + b.busy, 0)
+      };
+    });
+  }
+
+  /** Status of every registered worker. */
+  public async workers(): Promise<WorkerStatus[]> {
+    const names = await this.listWorkers();
+    return Promise.all(names.map((name) => this.worker(name)));
+  }
+
+  /**
+   * Busy browsers without a live lease, i.e. held by a process that died
+   * without releasing. Candidates for `BrowserClient.reclaim()`.
+   */
+  public async staleBrowsers(): Promise<BrowserRef[]> {
+    return this._guard(async () => {
+      const stale: BrowserRef[] = [];
+      for (const worker of await this.r.smembers(WORKERS_SET)) {
+        for (const browser_type of await this._browserTypes(worker, "busy")) {
+          const ids = await this.r.smembers(`${REDIS_PREFIX}${worker}:${browser_type}:busy`);
+          if (ids.length === 0) continue;
+
+          const pipeline = this.r.pipeline();
+          for (const browser_id of ids) pipeline.exists(`${LEASE_PREFIX}${worker}:${browser_type}:${browser_id}`);
+          const leases = (await pipeline.exec()) ?? [];
+
+          ids.forEach((browser_id, i) => {
+            if (!leases[i]?.[1]) stale.push({ worker, browser_type, browser_id });
+          });
+        }
+      }
+      return stale;
+    });
+  }
+
+  /** Everything above in one object, for dashboards and pre-flight checks. */
+  public async snapshot(): Promise<FleetSnapshot> {
+    const [workers, stale] = await Promise.all([this.workers(), this.staleBrowsers()]);
+
+    const totals: FleetSnapshot["totals"] = {};
+    for (const worker of workers) {
+      for (const b of worker.browsers) {
+        const total = totals[b.browser_type] ?? (totals[b.browser_type] = { free: 0, busy: 0 });
+        total.free += b.free;
+        total.busy += b.busy;
+      }
+    }
+
+    return { taken_at: new Date().toISOString(), workers, totals, stale };
+  }
+
+  /**
+   * Close the Redis connection if the inspector opened it.
+   */
+  public async close(): Promise<void> {
+    if (this.ownsConnection) await this.r.quit();
+  }
+
+  // Browser types a worker has sets for, discovered from the key layout
+  private async _browserTypes(worker: string, state: "free" | "busy" | "*" = "*"): Promise<string[]> {
+    const base = `${REDIS_PREFIX}${worker}:`;
+    const types = new Set<string>();
+    for (const key of await scanKeys(this.r, `${base}*:${state}`)) {
+      const rest = key.slice(base.length);
+      const suffix = rest.lastIndexOf(":");
+      if (suffix > 0 && /^(free|busy)$/.test(rest.slice(suffix + 1))) types.add(rest.slice(0, suffix));
+    }
+    return [...types].sort();
+  }
+
+  private async _guard<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (e: any) {
+      throw new RedisTransportError(`Redis Fleet Error: ${e.message}`);
+    }
+  }
+}
@@ -1,3 +1,23 @@
-export { BrowserClient } from './client';
-export { BrowserError } from './errors';
-export * from './config';
\ No newline at end of file
+export { AcquireOptions, BrowserClient, BrowserClientOptions, CallOptions, ReclaimedBrowser, SerializedSession } from './client';
+export { ActionBatch, BatchOptions } from './batch';
+export * from './locator';
+export * from './network';
+export * from './extract';
+export * from './emulation';
+export * from './visual';
+export { BrowserPool, BrowserPoolOptions, PoolAcquireOptions, PooledBrowser } from './pool';
+export { withBrowser, WithBrowserOptions } from './scope';
+export * from './jobs';
+export * from './fleet';
+export * from './profiles';
+export * from './script';
+export * from './telemetry';
+export * from './artifacts';
+export * from './testing';
+export * from './transport';
+export * from './mock';
+export * from './replay';
+export { connectRedis, RedisConnectionOptions } from './connection';
+export * from './errors';
+export * from './config';
+export * from './actions';
\ No newline at end of file
@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { BrowserPool, BrowserPoolOptions, PoolAcquireOptions, PooledBrowser } from './pool';
+
+export interface JobContext<I> {
+  input: I;
+  /** Position of the input in `inputs`, from 0. */
+  index: number;
+  /** Resume key of the input (see `RunJobsOptions.key`). */
+  key: string;
+  /** 1 for the first try, 2 for the first retry, ... */
+  attempt: number;
+}
+
+export type JobHandler<I, O> = (browser: PooledBrowser, input: I, job: JobContext<I>) => Promise<O>;
+
+export interface JobResult<I, O> {
+  input: I;
+  index: number;
+  key: string;
+  /** `skipped`: already completed in an earlier run recorded in `resumeFile`. */
+  status: "ok" | "failed" | "skipped";
+  /** The handler's return value (from the progress file when skipped). */
+  output?: O;
+  /** The last attempt's error, when failed. */
+  error?: Error;
+  attempts: number;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+}
+
+export interface RunJobsOptions<I> extends Omit<BrowserPoolOptions, 'maxConcurrency'> {
+  /** Jobs (and browsers) running at once. Default 5. */
+  concurrency?: number;
+  /** Extra attempts for a failed input, each on a fresh browser. Default 2. */
+  retries?: number;
+  /**
+   * JSONL file recording each finished job. Inputs it lists as completed are
+   * skipped, so re-running an interrupted run picks up where it stopped.
+   */
+  resumeFile?: string;
+  /** Identifies an input in `resumeFile`. Default: the string itself, or its JSON. */
+  key?: (input: I) => string;
+  /** Run on an existing pool instead of a new one. It is not closed afterwards. */
+  pool?: BrowserPool;
+  /** Passed to every `acquire()`, e.g. `{ emulation }` or a worker label. */
+  acquire?: PoolAcquireOptions;
+}
+
+// One line of the progress file
+interface ProgressRecord {
+  key: string;
+  status: "ok" | "failed";
+  output?: unknown;
+  error?: string;
+  attempts: number;
+  finished_at: string;
+  duration_ms: number;
+}
+
+/**
+ * Runs `handler` for every input over pooled browser sessions and yields
+ * each job's result as it finishes (in completion order, not input order).
+ *
+ * A browser is reused for consecutive jobs of the same lane; a job that
+ * throws discards its browser and is retried on a fresh one. The pool is
+ * created with `throwOnError: true` unless set otherwise, so failed actions
+ * fail the job. Breaking out of the loop waits for running jobs, then
+ * releases their browsers.
+ */
+export async function* runJobs<I, O>(
+  inputs: Iterable<I> | AsyncIterable<I>,
+  handler: JobHandler<I, O>,
+  options: RunJobsOptions<I> = {}
+): AsyncGenerator<JobResult<I, O>> {
+  const { concurrency = 5, retries = 2, resumeFile, key = defaultKey, pool: sharedPool, acquire = {}, ...poolOptions } = options;
+  const pool = sharedPool ?? new BrowserPool({ throwOnError: true, ...poolOptions, maxConcurrency: concurrency });
+  const completed = resumeFile ? await readProgress(resumeFile) : new Map<string, ProgressRecord>();
+
+  const source = Symbol.asyncIterator in inputs
+    ? (inputs as AsyncIterable<I>)[Symbol.asyncIterator]()
+    : (inputs as Iterable<I>)[Symbol.iterator]();
+  let nextIndex = 0;
+  let stopped = false;
+  let fatal: unknown = null;
+
+  const ready: JobResult<I, O>[] = [];
+  let wake: (() => void) | null = null;
+  const emit = (result: JobResult<I, O>) => {
+    ready.push(result);
+    wake?.();
+  };
+
+  // Progress lines are appended one at a time so concurrent jobs never interleave
+  let writes = Promise.resolve();
+  const record = (entry: ProgressRecord) => {
+    if (!resumeFile) return writes;
+    writes = writes.then(() => fs.promises.appendFile(resumeFile, JSON.stringify(entry) + "\n"));
+    return writes;
+  };
+
+  const lane = async () => {
+    let browser: PooledBrowser | null = null;
+    try {
+      while (!stopped) {
+        const next = await source.next();
+        if (next.done) break;
+        const input = next.value;
+        const job = { input, index: nextIndex++, key: key(input) };
+
+        const previous = completed.get(job.key);
+        if (previous?.status === "ok") {
+          emit({
+            ...job, status: "skipped", output: previous.output as O, attempts: previous.attempts,
+            started_at: previous.finished_at, finished_at: previous.finished_at, duration_ms: 0
+          });
+          continue;
+        }
+
+        const started = Date.now();
+        let output: O | undefined;
+        let error: Error | undefined;
+        let attempt = 0;
+        while (attempt <= retries) {
+          attempt++;
+          try {
+            browser ??= await pool.acquire(acquire);
+            output = await handler(browser, input, { ...job, attempt });
+            error = undefined;
+            break;
+          } catch (e) {
+            error = e instanceof Error ? e : new Error(String(e));
+            // The next attempt gets a fresh browser; this one may be in any state
+            if (browser) await browser.release().catch(() => undefined);
+            browser = null;
+            if (stopped) break;
+          }
+        }
+
+        const finished = Date.now();
+        const result: JobResult<I, O> = {
+          ...job, status: error ? "failed" : "ok", output, error, attempts: attempt,
+          started_at: new Date(started).toISOString(), finished_at: new Date(finished).toISOString(), duration_ms: finished - started
+        };
+        await record({
+          key: job.key, status: result.status as "ok" | "failed", output, error: error?.message,
+          attempts: attempt, finished_at: result.finished_at, duration_ms: result.duration_ms
+        });
+        emit(result);
+      }
+    } catch (e) {
+      // The input source or the progress file failed: stop every lane
+      fatal ??= e;
+      stopped = true;
+    } finally {
+      if (browser) await browser.release().catch(() => undefined);
+    }
+  };
+
+  let running = concurrency;
+  const lanes = Array.from({ length: concurrency }, () => lane().finally(() => {
+    running--;
+    wake?.();
+  }));
+
+  try {
+    while (running > 0 || ready.length > 0) {
+      if (ready.length === 0) {
+        await new Promise<void>((resolve) => { wake = resolve; });
+        wake = null;
+        continue;
+      }
+      yield ready.shift()!;
+    }
+    if (fatal) throw fatal;
+  } finally {
+    stopped = true;
+    await Promise.all(lanes);
+    await writes.catch(() => undefined);
+    if (!sharedPool) await pool.close();
+  }
+}
+
+function defaultKey(input: unknown): string {
+  return typeof input === 'string' ? input : JSON.stringify(input);
+}
+
+// Latest record per key; a missing file is an empty run
+async function readProgress(file: string): Promise<Map<string, ProgressRecord>> {
+  const completed = new Map<string, ProgressRecord>();
+  let text: string;
+  try {
+    text = await fs.promises.readFile(file, 'utf-8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+    await fs.promises.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    return completed;
+  }
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as ProgressRecord;
+      completed.set(entry.key, entry);
+    } catch {
+      // A run killed mid-write leaves a partial last line
+    }
+  }
+  return completed;
+}
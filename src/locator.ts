@@ -0,0 +1,334 @@
+import { Rect } from './actions';
+import { BrowserClient, CallOptions } from './client';
+import { BrowserError } from './errors';
+import { ExpectScreenshotOptions } from './visual';
+
+export interface WaitForOptions extends CallOptions {
+  /** `visible` (default), `present` in the DOM, or `absent` from it. */
+  state?: "visible" | "present" | "absent";
+}
+
+export interface ToHaveTextOptions extends CallOptions {
+  /** Compare the whole text instead of looking for a substring. */
+  exact?: boolean;
+  /** Save a screenshot when the assertion fails (default: true). */
+  screenshot?: boolean;
+}
+
+export interface AssertOptions extends CallOptions {
+  /** Save a screenshot when the assertion fails (default: true). */
+  screenshot?: boolean;
+}
+
+// Selectors starting like this are sent to the worker as XPath
+const XPATH_PATTERN = /^(\/|\.\/|\(|\.\.)/;
+
+/**
+ * A reusable reference to an element, resolved on the worker each time it
+ * is used. Built with `browser.locator(selector)` and refined by chaining:
+ *
+ *     const buy = browser.locator("//button").byText("Buy").within("//div[@class='product-card']").nth(2);
+ *     await buy.click();
+ *
+ * Methods always throw on failure (whatever the client's `throwOnError`)
+ * and return plain values instead of result envelopes. `nth` counts from 1,
+ * like `click_nth_element`, and needs an XPath selector past the first match.
+ */
+export class Locator {
+  constructor(
+    private browser: BrowserClient,
+    private own: string,
+    private parent: Locator | null = null,
+    private index: number | null = null
+  ) {}
+
+  // --- Refinement ---
+
+  /**
+   * The `n`th match (1-based). CSS cannot select "the nth match" in one
+   * selector, so on a CSS locator only `nth(1)` (what every action uses
+   * anyway) is accepted; anything else throws here rather than on use.
+   */
+  public nth(n: number): Locator {
+    if (!Number.isInteger(n) || n < 1) throw new BrowserError(`nth() expects a positive integer, got ${n}`);
+    if (!isXPath(this.own)) {
+      if (n === 1) return new Locator(this.browser, this.own, this.parent);
+      throw new BrowserError(`nth(${n}) needs an XPath selector, got the CSS selector '${this.own}'; use click_nth_element() to click it`);
+    }
+    return new Locator(this.browser, this.own, this.parent, n);
+  }
+
+  public first(): Locator {
+    return this.nth(1);
+  }
+
+  /** Only matches inside `parent`. */
+  public within(parent: string | Locator): Locator {
+    const scope = typeof parent === 'string' ? new Locator(this.browser, parent) : parent;
+    return new Locator(this.browser, this.own, scope, this.index);
+  }
+
+  /** Only matches containing `text`. */
+  public byText(text: string): Locator {
+    const own = isXPath(this.own)
+      ? `${this.own}[contains(., ${xpathLiteral(text)})]`
+      : `${this.own}:contains(${JSON.stringify(text)})`;
+    return new Locator(this.browser, own, this.parent, this.index);
+  }
+
+  /** A locator for `selector` inside this one. */
+  public locator(selector: string): Locator {
+    return new Locator(this.browser, selector, this);
+  }
+
+  /**
+   * The single selector this locator resolves to. Throws when it cannot be
+   * expressed as one (CSS mixed with XPath).
+   */
+  public get selector(): string {
+    const scoped = this._scoped();
+    return this.index === null ? scoped : `(${scoped})[${this.index}]`;
+  }
+
+  public toString(): string {
+    return `Locator(${this._describe()})`;
+  }
+
+  // --- Actions ---
+
+  /**
+   * Maps onto `click_nth_element` for `nth()` and `nested_click` for
+   * `within()`; `timeout` only applies to a plain click.
+   */
+  public async click(timeout?: number, opts?: CallOptions): Promise<void> {
+    if (this.index !== null) {
+      await this.browser.click_nth_element(this._scoped(), this.index, this._opts(opts));
+    } else if (this.parent) {
+      await this.browser.nested_click(this.parent.selector, this.own, this._opts(opts));
+    } else {
+      await this.browser.click(this.own, timeout, this._opts(opts));
+    }
+  }
+
+  /** Clears the field and types `text`. */
+  public async fill(text: string, timeout?: number, opts?: CallOptions): Promise<void> {
+    await this.browser.type(this.selector, text, timeout, this._opts(opts));
+  }
+
+  /** Types `text` into the element without clearing it first. */
+  public async press(text: string, opts?: CallOptions): Promise<void> {
+    await this.browser.press_keys(this.selector, text, this._opts(opts));
+  }
+
+  public async clear(opts?: CallOptions): Promise<void> {
+    await this.browser.clear(this.selector, this._opts(opts));
+  }
+
+  public async focus(opts?: CallOptions): Promise<void> {
+    await this.browser.focus(this.selector, this._opts(opts));
+  }
+
+  public async hover(opts?: CallOptions): Promise<void> {
+    await this.browser.gui_hover_element(this.selector, this._opts(opts));
+  }
+
+  public async selectOption(text: string, opts?: CallOptions): Promise<void> {
+    await this.browser.select_option_by_text(this.selector, text, this._opts(opts));
+  }
+
+  public async scrollIntoView(opts?: CallOptions): Promise<void> {
+    await this.browser.scroll_into_view(this.selector, this._opts(opts));
+  }
+
+  public async highlight(opts?: CallOptions): Promise<void> {
+    await this.browser.highlight(this.selector, this._opts(opts));
+  }
+
+  public async upload(localFilePath: string, opts?: CallOptions): Promise<void> {
+    await this.browser.upload_file(this.selector, localFilePath, this._opts(opts));
+  }
+
+  /** Saves a screenshot of just this element; resolves to its location. */
+  public async screenshot(filename?: string, opts?: CallOptions): Promise<string> {
+    const res = await this.browser.screenshot(filename, this.selector, this._opts(opts));
+    return res.status === "ok" ? res.path : "";
+  }
+
+  // --- Reading ---
+
+  public async text(opts?: CallOptions): Promise<string> {
+    const res = await this.browser.get_text(this.selector, this._opts(opts));
+    return res.status === "ok" ? res.text : "";
+  }
+
+  public async html(opts?: CallOptions): Promise<string> {
+    const res = await this.browser.get_html(this.selector, this._opts(opts));
+    return res.status === "ok" ? res.html : "";
+  }
+
+  public async attribute(name: string, opts?: CallOptions): Promise<string | null> {
+    const res = await this.browser.get_attribute(this.selector, name, this._opts(opts));
+    return res.status === "ok" ? res.value : null;
+  }
+
+  public async rect(opts?: CallOptions): Promise<Rect> {
+    const res = await this.browser.get_element_rect(this.selector, this._opts(opts));
+    return res.status === "ok" ? res.rect : { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  public async isVisible(opts?: CallOptions): Promise<boolean> {
+    const res = await this.browser.is_element_visible(this.selector, this._opts(opts));
+    return res.status === "ok" && res.result;
+  }
+
+  public async isChecked(opts?: CallOptions): Promise<boolean> {
+    const res = await this.browser.is_checked(this.selector, this._opts(opts));
+    return res.status === "ok" && res.result;
+  }
+
+  /** Waits (on the worker) until the element reaches `state`. */
+  public async waitFor(timeout?: number, options: WaitForOptions = {}): Promise<void> {
+    const { state = "visible", ...opts } = options;
+    const call = this._opts(opts);
+    if (state === "present") await this.browser.wait_for_element_present(this.selector, timeout, call);
+    else if (state === "absent") await this.browser.wait_for_element_absent(this.selector, timeout, call);
+    else await this.browser.wait_for_element(this.selector, timeout, call);
+  }
+
+  /** Worker-side assertions; failures raise `AssertionFailedError` with a screenshot. */
+  public expect(): LocatorAssertions {
+    return new LocatorAssertions(this.browser, this);
+  }
+
+  private _describe(): string {
+    const scoped = this.parent ? `${this.parent._describe()} >> ${this.own}` : this.own;
+    return this.index === null ? scoped : `${scoped} >> nth=${this.index}`;
+  }
+
+  // The selector with its parent applied, before nth()
+  private _scoped(): string {
+    if (!this.parent) return this.own;
+    const parent = this.parent.selector;
+    if (isXPath(parent) !== isXPath(this.own)) {
+      throw new BrowserError(`Cannot scope '${this.own}' within '${parent}': mix of CSS and XPath selectors`);
+    }
+    if (!isXPath(parent)) return `${parent} ${this.own}`;
+    // './/x' and '//x' both mean descendants of the parent
+    return `${parent}${this.own.startsWith("/") ? this.own : `//${this.own.replace(/^\.\/+/, "")}`}`;
+  }
+
+  private _opts(opts?: CallOptions): CallOptions {
+    return { ...opts, throwOnError: true };
+  }
+}
+
+export class LocatorAssertions {
+  constructor(private browser: BrowserClient, private target: Locator) {}
+
+  /** Contains `text`, or equals it with `exact`. */
+  public async toHaveText(text: string, options: ToHaveTextOptions = {}): Promise<void> {
+    const { exact, screenshot = true, ...opts } = options;
+    if (exact) await this.browser.assert_exact_text(text, this.target.selector, screenshot, this._opts(opts));
+    else await this.browser.assert_text(text, this.target.selector, screenshot, this._opts(opts));
+  }
+
+  public async notToHaveText(text: string, options: AssertOptions = {}): Promise<void> {
+    const { screenshot = true, ...opts } = options;
+    await this.browser.assert_text_not_visible(text, this.target.selector, screenshot, this._opts(opts));
+  }
+
+  public async toBeVisible(options: AssertOptions = {}): Promise<void> {
+    const { screenshot = true, ...opts } = options;
+    await this.browser.assert_element(this.target.selector, screenshot, this._opts(opts));
+  }
+
+  public async toBeHidden(options: AssertOptions = {}): Promise<void> {
+    const { screenshot = true, ...opts } = options;
+    await this.browser.assert_element_not_visible(this.target.selector, screenshot, this._opts(opts));
+  }
+
+  public async toBePresent(options: AssertOptions = {}): Promise<void> {
+    const { screenshot = true, ...opts } = options;
+    await this.browser.assert_element_present(this.target.selector, screenshot, this._opts(opts));
+  }
+
+  public async toBeAbsent(options: AssertOptions = {}): Promise<void> {
+    const { screenshot = true, ...opts } = options;
+    await this.browser.assert_element_absent(this.target.selector, screenshot, this._opts(opts));
+  }
+
+  public async toHaveAttribute(name: string, value: string, options: AssertOptions = {}): Promise<void> {
+    const { screenshot = true, ...opts } = options;
+    await this.browser.assert_attribute(this.target.selector, name, value, screenshot, this._opts(opts));
+  }
+
+  /** Visual comparison of just this element; see `BrowserClient.expectScreenshot`. */
+  public async toMatchScreenshot(name: string, options: Omit<ExpectScreenshotOptions, 'selector'> = {}): Promise<void> {
+    await this.browser.expectScreenshot(name, { ...options, selector: this.target.selector });
+  }
+
+  private _opts(opts: CallOptions): CallOptions {
+    return { ...opts, throwOnError: true };
+  }
+}
+
+// ---------------------------------------------------------
+// PAGE OBJECTS
+// ---------------------------------------------------------
+
+/**
+ * Base class for page models. Subclasses declare their locators once and
+ * expose the page's workflows as methods:
+ *
+ *     class LoginPage extends PageObject {
+ *       protected readonly url = "https://example.com/login";
+ *       readonly email = this.locator("#email");
+ *       readonly submit = this.locator("button[type=submit]");
+ *
+ *       async login(email: string) {
+ *         await this.email.fill(email);
+ *         await this.submit.click();
+ *       }
+ *     }
+ *
+ *     await new LoginPage(browser).open();
+ *
+ * With a `root` selector the model describes a component, and every
+ * locator it creates is scoped to it.
+ */
+export abstract class PageObject {
+  /** Opened by `open()`. */
+  protected readonly url?: string;
+
+  constructor(protected readonly browser: BrowserClient, protected readonly root?: string | Locator) {}
+
+  /** Navigates to `url` and waits for `isLoaded()`. */
+  public async open(opts?: CallOptions): Promise<this> {
+    if (!this.url) throw new BrowserError(`${this.constructor.name} has no url to open`);
+    await this.browser.open_url(this.url, { ...opts, throwOnError: true });
+    await this.isLoaded();
+    return this;
+  }
+
+  /**
+   * Waits until the page is usable. Override to wait for a landmark
+   * element; the default does nothing.
+   */
+  protected async isLoaded(): Promise<void> {}
+
+  protected locator(selector: string): Locator {
+    const locator = this.browser.locator(selector);
+    return this.root ? locator.within(this.root) : locator;
+  }
+}
+
+function isXPath(selector: string): boolean {
+  return XPATH_PATTERN.test(selector);
+}
+
+// XPath 1.0 has no escapes; concat() pieces when both quote kinds occur
+function xpathLiteral(text: string): string {
+  if (!text.includes('"')) return `"${text}"`;
+  if (!text.includes("'")) return `'${text}'`;
+  return `concat(${text.split('"').map((part) => `"${part}"`).join(`, '"', `)})`;
+}
@@ -0,0 +1,230 @@
+import { ActionArgs, ActionName, ActionResult, Result, TaskPayload } from './actions';
+import { BrowserRef } from './fleet';
+import { LeaseOptions, Transport } from './transport';
+
+/** A canned result, or a function computing one from the task's arguments. */
+export type MockResponse<A extends ActionName = ActionName> =
+  | ActionResult<A>
+  | ((args: ActionArgs<A>, payload: TaskPayload<A>) => ActionResult<A> | Promise<ActionResult<A>>);
+
+export interface MockWorkerOptions {
+  /** Contents of the worker's metadata hash, for label targeting. */
+  labels?: Record<string, string>;
+  /** Number of browsers per browser type. */
+  browsers?: Record<string, number>;
+}
+
+export interface MockTransportOptions {
+  /** Simulated workers. Default: one `mock-worker` with 4 chrome and 4 firefox browsers. */
+  workers?: Record<string, MockWorkerOptions>;
+  /** Answer actions without a scripted response with an error instead of `{ status: "ok" }`. */
+  strict?: boolean;
+}
+
+interface MockWorker {
+  labels: Record<string, string>;
+  free: Map<string, string[]>;
+  busy: Map<string, Set<string>>;
+  queue: TaskPayload[];
+}
+
+/**
+ * An in-memory worker fleet. Tasks are answered from scripted responses,
+ * so code built on `BrowserClient` runs without Redis or a real worker:
+ *
+ *     const mock = new MockTransport();
+ *     mock.respond("get_title", { status: "ok", title: "Home" });
+ *     mock.respondOnce("click", { status: "error", error: "Element not found: #buy" });
+ *     const browser = new BrowserClient({ transport: mock });
+ *
+ * Like a real worker, a queued task only runs when its result is awaited,
+ * in queue order, so batches and withdrawals behave as they do live.
+ */
+export class MockTransport implements Transport {
+  /** Every task the mock worker ran, in order. */
+  public readonly calls: TaskPayload[] = [];
+  /** Task ids the client flagged as no longer wanted. */
+  public readonly cancelled = new Set<string>();
+
+  private strict: boolean;
+  private workers = new Map<string, MockWorker>();
+  private leases = new Set<string>();
+  private results = new Map<string, Result | null>();
+  private responses = new Map<string, MockResponse<any>>();
+  private onceResponses = new Map<string, MockResponse<any>[]>();
+
+  constructor(options: MockTransportOptions = {}) {
+    this.strict = options.strict ?? false;
+    const workers = options.workers ?? { "mock-worker": { browsers: { chrome: 4, firefox: 4 } } };
+
+    for (const [name, worker] of Object.entries(workers)) {
+      const free = new Map<string, string[]>();
+      for (const [type, count] of Object.entries(worker.browsers ?? {})) {
+        free.set(type, Array.from({ length: count }, (_, i) => `${type}-${i + 1}`));
+      }
+      this.workers.set(name, { labels: worker.labels ?? {}, free, busy: new Map(), queue: [] });
+    }
+  }
+
+  // --- Scripting ---
+
+  /** Answers every `action` task with `response` (until replaced). */
+  public respond<A extends ActionName>(action: A, response: MockResponse<A>): this {
+    this.responses.set(action, response);
+    return this;
+  }
+
+  /** Answers the next `action` task with `response`, ahead of `respond()`. */
+  public respondOnce<A extends ActionName>(action: A, response: MockResponse<A>): this {
+    const queued = this.onceResponses.get(action) ?? [];
+    queued.push(response);
+    this.onceResponses.set(action, queued);
+    return this;
+  }
+
+  /** Tasks run for one action, in order. */
+  public callsFor<A extends ActionName>(action: A): TaskPayload<A>[] {
+    return this.calls.filter((call): call is TaskPayload<A> => call.action === action);
+  }
+
+  // --- Transport ---
+
+  public async listWorkers(): Promise<string[]> {
+    return [...this.workers.keys()];
+  }
+
+  public async workerLabels(workers: string[]): Promise<Record<string, string>[]> {
+    return workers.map((name) => ({ ...this.workers.get(name)?.labels }));
+  }
+
+  public async claim(browserType: string, candidates: string[] | null, _lease: LeaseOptions): Promise<BrowserRef | null> {
+    // Deterministic order, unlike the random pick on a real fleet
+    for (const name of candidates ?? this.workers.keys()) {
+      const worker = this.workers.get(name);
+      const browser_id = worker?.free.get(browserType)?.shift();
+      if (!worker || !browser_id) continue;
+
+      const busy = worker.busy.get(browserType) ?? new Set();
+      busy.add(browser_id);
+      worker.busy.set(browserType, busy);
+
+      const ref = { worker: name, browser_type: browserType, browser_id };
+      this.leases.add(refKey(ref));
+      return ref;
+    }
+    return null;
+  }
+
+  public async adopt(browser: BrowserRef, _lease: LeaseOptions): Promise<boolean> {
+    if (!this.workers.get(browser.worker)?.busy.get(browser.browser_type)?.has(browser.browser_id)) return false;
+    this.leases.add(refKey(browser));
+    return true;
+  }
+
+  public async renewLease(_browser: BrowserRef, _lease: LeaseOptions): Promise<void> {
+    // Mock leases never expire
+  }
+
+  public async endLease(browser: BrowserRef): Promise<void> {
+    this.leases.delete(refKey(browser));
+  }
+
+  public async push(worker: string, payloads: TaskPayload[]): Promise<void> {
+    const target = this.workers.get(worker);
+    if (!target) throw new Error(`Unknown mock worker: '${worker}'`);
+    target.queue.push(...payloads);
+  }
+
+  public async result(payload: TaskPayload, _timeout: number, signal?: AbortSignal): Promise<Result | null> {
+    if (signal?.aborted) throw signal.reason instanceof Error ? signal.reason : new Error("Aborted");
+
+    const queue = this.workers.get(payload.worker_name)?.queue ?? [];
+    while (!this.results.has(payload.task_id)) {
+      const next = queue.shift();
+      // Never pushed, or withdrawn: the client sees a timeout
+      if (!next) return null;
+      this.results.set(next.task_id, await this._run(next));
+    }
+
+    const result = this.results.get(payload.task_id) ?? null;
+    this.results.delete(payload.task_id);
+    return result;
+  }
+
+  public async withdraw(worker: string, payloads: TaskPayload[]): Promise<boolean[]> {
+    const queue = this.workers.get(worker)?.queue ?? [];
+    return payloads.map((payload) => {
+      const index = queue.findIndex((queued) => queued.task_id === payload.task_id);
+      if (index >= 0) queue.splice(index, 1);
+      return index >= 0;
+    });
+  }
+
+  public async cancel(payload: TaskPayload): Promise<void> {
+    this.cancelled.add(payload.task_id);
+    this.results.delete(payload.task_id);
+  }
+
+  public async reclaim(options: { dryRun?: boolean } = {}): Promise<BrowserRef[]> {
+    const stale: BrowserRef[] = [];
+    for (const [name, worker] of this.workers) {
+      for (const [browser_type, busy] of worker.busy) {
+        for (const browser_id of busy) {
+          const ref = { worker: name, browser_type, browser_id };
+          if (this.leases.has(refKey(ref))) continue;
+          stale.push(ref);
+          if (!options.dryRun) this._free(ref);
+        }
+      }
+    }
+    return stale;
+  }
+
+  public async close(): Promise<void> {
+    // Nothing to close
+  }
+
+  /**
+   * Runs one task on the simulated worker; null plays a worker that never
+   * answers. Subclasses override this to source results elsewhere (see
+   * `ReplayTransport`).
+   */
+  protected async _run(payload: TaskPayload): Promise<Result | null> {
+    this.calls.push(payload);
+    const result = await this._respond(payload);
+    if (payload.action === "release_browser") {
+      this._free({ worker: payload.worker_name, browser_type: this._typeOf(payload), browser_id: payload.browser_id });
+    }
+    return result;
+  }
+
+  private async _respond(payload: TaskPayload): Promise<Result> {
+    const response = this.onceResponses.get(payload.action)?.shift() ?? this.responses.get(payload.action);
+    if (response === undefined) {
+      return this.strict
+        ? { status: "error", error: `No mock response for action '${payload.action}'` }
+        : { status: "ok" };
+    }
+    return typeof response === 'function' ? response(payload.args, payload) : response;
+  }
+
+  private _typeOf(payload: TaskPayload): string {
+    const worker = this.workers.get(payload.worker_name);
+    for (const [type, busy] of worker?.busy ?? []) {
+      if (busy.has(payload.browser_id)) return type;
+    }
+    return "";
+  }
+
+  private _free(ref: BrowserRef): void {
+    const worker = this.workers.get(ref.worker);
+    if (!worker?.busy.get(ref.browser_type)?.delete(ref.browser_id)) return;
+    const free = worker.free.get(ref.browser_type) ?? [];
+    free.push(ref.browser_id);
+    worker.free.set(ref.browser_type, free);
+  }
+}
+
+function refKey({ worker, browser_type, browser_id }: BrowserRef): string {
+  return `${worker}:${browser_type}:${browser_id}`;
+}
@@ -0,0 +1,571 @@
+import * as path from 'path';
+
+import { BrowserClient } from './client';
+import { ArtifactWriter } from './artifacts';
+import { BrowserError } from './errors';
+
+// ---------------------------------------------------------
+// TYPES
+// ---------------------------------------------------------
+
+/** Answers the request without it reaching the network. */
+export interface RouteFulfill {
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  /** Sets the body and a JSON `content-type`. */
+  json?: unknown;
+  body?: string;
+  contentType?: string;
+}
+
+/** Changes the request before it is sent. */
+export interface RouteModify {
+  url?: string;
+  method?: string;
+  /** Added to (or replacing) the request's headers. */
+  headers?: Record<string, string>;
+  postData?: string;
+}
+
+/**
+ * What `route()` does with a matching request. `abort` takes an optional
+ * reason, recorded in HAR captures.
+ */
+export type RouteHandler =
+  | { fulfill: RouteFulfill }
+  | { modify: RouteModify }
+  | { abort: true | string };
+
+/** Arguments of CDP `Network.emulateNetworkConditions`. */
+export interface NetworkConditions {
+  offline?: boolean;
+  /** Added round-trip latency in milliseconds. */
+  latency: number;
+  /** Bytes per second; -1 disables throttling. */
+  downloadThroughput: number;
+  uploadThroughput: number;
+}
+
+export type NetworkPreset = "offline" | "slow-3g" | "fast-3g" | "no-throttling";
+
+// Chrome DevTools' own throttling profiles
+export const NETWORK_PRESETS: Record<NetworkPreset, NetworkConditions> = {
+  "offline": { offline: true, latency: 0, downloadThroughput: 0, uploadThroughput: 0 },
+  "slow-3g": { latency: 2000, downloadThroughput: 50000, uploadThroughput: 50000 },
+  "fast-3g": { latency: 562.5, downloadThroughput: 180000, uploadThroughput: 84375 },
+  "no-throttling": { latency: 0, downloadThroughput: -1, uploadThroughput: -1 }
+};
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: -1;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: [];
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: string;
+    headersSize: -1;
+    bodySize: number;
+    _error?: string;
+  };
+  cache: {};
+  timings: { blocked: number; dns: number; connect: number; ssl: number; send: number; wait: number; receive: number };
+  /** Set on entries synthesized from Resource Timing rather than observed. */
+  comment?: string;
+  _resourceType: string;
+}
+
+/** A HAR 1.2 document, as written by `stopHar()`. */
+export interface Har {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+// Shape the page hook records; converted to HAR on the client
+interface CapturedRequest {
+  started: string;
+  type: string;
+  method: string;
+  url: string;
+  requestHeaders?: Record<string, string>;
+  postData?: string | null;
+  status?: number;
+  statusText?: string;
+  responseHeaders?: Record<string, string>;
+  body?: string | null;
+  time?: number;
+  size?: number;
+  error?: string;
+  timings?: { dns: number; connect: number; ssl: number; wait: number; receive: number };
+}
+
+interface InstalledRoute {
+  id: number;
+  key: string;
+  identifier: string;
+}
+
+// ---------------------------------------------------------
+// PAGE HOOK
+// ---------------------------------------------------------
+// `execute_cdp_cmd` is request/response only: CDP events such as
+// `Fetch.requestPaused` never reach the client. Routing and capture are
+// therefore done in the page, by wrapping `fetch` and `XMLHttpRequest`.
+// The hook installs once per document and is driven through
+// `window.__isoautomate`. HAR entries are mirrored to sessionStorage so a
+// capture survives same-origin navigations.
+
+const HAR_STORAGE_KEY = "__isoautomate_har";
+// Longest response body kept per HAR entry, in characters
+const HAR_MAX_BODY = 100000;
+
+const PAGE_HOOK = `(function () {
+  var w = window;
+  if (w.__isoautomate) return;
+  var state = w.__isoautomate = { routes: [], har: false, entries: [] };
+
+  function find(url) {
+    for (var i = state.routes.length - 1; i >= 0; i--) {
+      var r = state.routes[i];
+      if (new RegExp(r.source, r.flags).test(url)) return r;
+    }
+    return null;
+  }
+  function absolute(url) {
+    try { return new URL(url, location.href).href; } catch (e) { return String(url); }
+  }
+  function headerObject(headers) {
+    var out = {};
+    if (headers && headers.forEach) headers.forEach(function (v, k) { out[k] = v; });
+    return out;
+  }
+  function parseHeaders(raw) {
+    var out = {};
+    (raw || '').trim().split(/[\\r\\n]+/).forEach(function (line) {
+      var i = line.indexOf(':');
+      if (i > 0) out[line.slice(0, i).trim()] = line.slice(i + 1).trim();
+    });
+    return out;
+  }
+  function record(entry) {
+    if (!state.har) return;
+    if (typeof entry.body === 'string' && entry.body.length > ${HAR_MAX_BODY}) entry.body = entry.body.slice(0, ${HAR_MAX_BODY});
+    state.entries.push(entry);
+    try { sessionStorage.setItem('${HAR_STORAGE_KEY}', JSON.stringify(state.entries)); } catch (e) {}
+  }
+  function flushResources() {
+    if (!state.har || !w.performance || !performance.getEntriesByType) return;
+    var origin = performance.timeOrigin;
+    performance.getEntriesByType('navigation').concat(performance.getEntriesByType('resource')).forEach(function (t) {
+      if (t.initiatorType === 'fetch' || t.initiatorType === 'xmlhttprequest') return;
+      record({
+        started: new Date(origin + t.startTime).toISOString(),
+        type: t.entryType === 'navigation' ? 'document' : t.initiatorType,
+        method: 'GET', url: t.name, status: t.responseStatus || 0, time: t.duration, size: t.transferSize,
+        timings: {
+          dns: t.domainLookupEnd - t.domainLookupStart,
+          connect: t.connectEnd - t.connectStart,
+          ssl: t.secureConnectionStart > 0 ? t.connectEnd - t.secureConnectionStart : -1,
+          wait: t.responseStart - t.requestStart,
+          receive: t.responseEnd - t.responseStart
+        }
+      });
+    });
+  }
+
+  state.startHar = function (fresh) {
+    if (state.har) return;
+    state.har = true;
+    state.entries = [];
+    try {
+      if (fresh) sessionStorage.removeItem('${HAR_STORAGE_KEY}');
+      else state.entries = JSON.parse(sessionStorage.getItem('${HAR_STORAGE_KEY}') || '[]');
+    } catch (e) {}
+  };
+  state.stopHar = function () {
+    flushResources();
+    var out = state.entries;
+    state.har = false;
+    state.entries = [];
+    try { sessionStorage.removeItem('${HAR_STORAGE_KEY}'); } catch (e) {}
+    return JSON.stringify(out);
+  };
+  w.addEventListener('pagehide', flushResources);
+
+  var nativeFetch = w.fetch;
+  if (nativeFetch) w.fetch = function (input, init) {
+    var request = new Request(input, init);
+    var route = find(request.url);
+    var started = Date.now();
+    var entry = {
+      started: new Date(started).toISOString(), type: 'fetch', method: request.method, url: request.url,
+      requestHeaders: headerObject(request.headers), postData: init && typeof init.body === 'string' ? init.body : null
+    };
+    function done(response) {
+      response.clone().text().then(function (body) {
+        entry.time = Date.now() - started;
+        entry.status = response.status;
+        entry.statusText = response.statusText;
+        entry.responseHeaders = headerObject(response.headers);
+        entry.body = body;
+        record(entry);
+      }, function () {});
+      return response;
+    }
+    if (route && route.abort) {
+      entry.time = 0; entry.status = 0; entry.error = route.abort;
+      record(entry);
+      return Promise.reject(new TypeError('Failed to fetch'));
+    }
+    if (route && route.fulfill) {
+      var f = route.fulfill;
+      var empty = f.status === 204 || f.status === 304;
+      return Promise.resolve(done(new Response(empty ? null : f.body, { status: f.status, statusText: f.statusText, headers: f.headers })));
+    }
+    if (route && route.modify) {
+      var m = route.modify;
+      var headers = new Headers(request.headers);
+      for (var k in m.headers) headers.set(k, m.headers[k]);
+      var method = m.method || request.method;
+      var body = m.postData != null ? m.postData : init && init.body;
+      request = new Request(m.url ? absolute(m.url) : request.url, {
+        method: method, headers: headers, body: /^(GET|HEAD)$/i.test(method) ? undefined : body,
+        credentials: request.credentials, cache: request.cache, redirect: request.redirect, referrer: request.referrer
+      });
+      entry.method = method; entry.url = request.url; entry.requestHeaders = headerObject(headers);
+      if (m.postData != null) entry.postData = m.postData;
+    }
+    return nativeFetch.call(w, request).then(done, function (e) {
+      entry.time = Date.now() - started; entry.status = 0; entry.error = String(e);
+      record(entry);
+      throw e;
+    });
+  };
+
+  var XHR = w.XMLHttpRequest;
+  if (XHR) {
+    var open = XHR.prototype.open, send = XHR.prototype.send, setHeader = XHR.prototype.setRequestHeader;
+    XHR.prototype.open = function (method, url) {
+      var route = find(absolute(url));
+      this.__isoautomate = { method: String(method).toUpperCase(), url: absolute(url), headers: {}, route: route };
+      var args = Array.prototype.slice.call(arguments);
+      if (route && route.modify) {
+        if (route.modify.method) args[0] = this.__isoautomate.method = route.modify.method;
+        if (route.modify.url) args[1] = this.__isoautomate.url = absolute(route.modify.url);
+      }
+      return open.apply(this, args);
+    };
+    XHR.prototype.setRequestHeader = function (name, value) {
+      if (this.__isoautomate) this.__isoautomate.headers[name] = value;
+      return setHeader.call(this, name, value);
+    };
+    XHR.prototype.send = function (body) {
+      var xhr = this, meta = xhr.__isoautomate;
+      if (!meta) return send.apply(xhr, arguments);
+      var route = meta.route, started = Date.now();
+      if (route && route.modify) {
+        for (var k in route.modify.headers) {
+          setHeader.call(xhr, k, route.modify.headers[k]);
+          meta.headers[k] = route.modify.headers[k];
+        }
+        if (route.modify.postData != null) body = route.modify.postData;
+      }
+      var entry = {
+        started: new Date(started).toISOString(), type: 'xhr', method: meta.method, url: meta.url,
+        requestHeaders: meta.headers, postData: typeof body === 'string' ? body : null
+      };
+      if (route && (route.abort || route.fulfill)) return fake(xhr, route, entry);
+      xhr.addEventListener('loadend', function () {
+        entry.time = Date.now() - started;
+        entry.status = xhr.status;
+        entry.statusText = xhr.statusText;
+        entry.responseHeaders = parseHeaders(xhr.getAllResponseHeaders());
+        try { entry.body = xhr.responseType === '' || xhr.responseType === 'text' ? xhr.responseText : null; } catch (e) {}
+        record(entry);
+      });
+      return send.call(xhr, body);
+    };
+  }
+
+  // Plays a routed XHR locally: final state, then the usual events
+  function fake(xhr, route, entry) {
+    var f = route.fulfill;
+    setTimeout(function () {
+      function define(name, value) { Object.defineProperty(xhr, name, { configurable: true, value: value }); }
+      define('readyState', 4);
+      if (f) {
+        var headers = f.headers || {};
+        define('status', f.status);
+        define('statusText', f.statusText || '');
+        define('responseURL', entry.url);
+        define('responseText', f.body);
+        define('response', xhr.responseType === 'json' ? JSON.parse(f.body || 'null') : f.body);
+        define('getAllResponseHeaders', function () {
+          return Object.keys(headers).map(function (k) { return k + ': ' + headers[k]; }).join('\\r\\n');
+        });
+        define('getResponseHeader', function (name) {
+          for (var k in headers) if (k.toLowerCase() === String(name).toLowerCase()) return headers[k];
+          return null;
+        });
+        entry.status = f.status; entry.statusText = f.statusText || ''; entry.responseHeaders = headers; entry.body = f.body;
+      } else {
+        define('status', 0);
+        entry.status = 0; entry.error = route.abort;
+      }
+      entry.time = 0;
+      record(entry);
+      xhr.dispatchEvent(new Event('readystatechange'));
+      xhr.dispatchEvent(new ProgressEvent(f ? 'load' : 'error'));
+      xhr.dispatchEvent(new ProgressEvent('loadend'));
+    }, 0);
+  }
+})();`;
+
+// ---------------------------------------------------------
+// NETWORK CONTROL
+// ---------------------------------------------------------
+
+/**
+ * Request routing, headers, throttling and HAR capture for the current
+ * session (Chrome only). Reached as `browser.network`; its state ends with
+ * the session.
+ *
+ * Extra headers and throttling are CDP `Network` overrides and cover every
+ * request. Routing and HAR capture are not: they run in the page hook
+ * above, so only `fetch` and `XMLHttpRequest` calls are routed, and
+ * documents, scripts, images and other resources never are. Their HAR
+ * entries are synthesized from the Resource Timing API, with an assumed
+ * `GET` and no headers or bodies.
+ *
+ * Methods always throw on failure, like `Locator`.
+ */
+export class NetworkControl {
+  private routes: InstalledRoute[] = [];
+  private harScript: string | null = null;
+  private nextRouteId = 1;
+
+  constructor(private browser: BrowserClient, private writeArtifact: ArtifactWriter) {}
+
+  // --- Routing ---
+
+  /**
+   * Fulfills, modifies or aborts requests whose URL matches `pattern` (a
+   * glob where `*` matches anything, or a RegExp). The latest matching route
+   * wins. Applies to `fetch` and `XMLHttpRequest` from the current page on;
+   * documents, scripts and images are not routed (see `block_urls`).
+   */
+  public async route(pattern: string | RegExp, handler: RouteHandler): Promise<void> {
+    const id = this.nextRouteId++;
+    const regex = toRegExp(pattern);
+    const spec = { id, source: regex.source, flags: regex.flags, ...compileHandler(handler) };
+    const identifier = await this._inject(`window.__isoautomate.routes.push(${JSON.stringify(spec)});`);
+    this.routes.push({ id, key: patternKey(pattern), identifier });
+  }
+
+  /** Removes the routes registered for `pattern`, or all of them. */
+  public async unroute(pattern?: string | RegExp): Promise<void> {
+    const key = pattern === undefined ? null : patternKey(pattern);
+    const removed = this.routes.filter((r) => key === null || r.key === key);
+    if (removed.length === 0) return;
+
+    for (const route of removed) {
+      await this._cdp("Page.removeScriptToEvaluateOnNewDocument", { identifier: route.identifier });
+    }
+    const ids = JSON.stringify(removed.map((r) => r.id));
+    await this._evaluate(`window.__isoautomate && (window.__isoautomate.routes = window.__isoautomate.routes.filter(function (r) { return ${ids}.indexOf(r.id) < 0; }))`);
+    this.routes = this.routes.filter((r) => !removed.includes(r));
+  }
+
+  // --- Headers & Throttling ---
+
+  /** Sent with every request of the session, replacing earlier extra headers. */
+  public async setExtraHeaders(headers: Record<string, string>): Promise<void> {
+    await this._cdp("Network.enable", {});
+    await this._cdp("Network.setExtraHTTPHeaders", { headers });
+  }
+
+  /** Throttles (or cuts) the connection, e.g. `"slow-3g"` or `"offline"`. */
+  public async emulateNetworkConditions(conditions: NetworkConditions | NetworkPreset): Promise<void> {
+    const resolved = typeof conditions === 'string' ? NETWORK_PRESETS[conditions] : conditions;
+    if (!resolved) throw new BrowserError(`Unknown network preset: '${conditions}'`);
+    await this._cdp("Network.enable", {});
+    await this._cdp("Network.emulateNetworkConditions", { offline: false, ...resolved });
+  }
+
+  // --- HAR ---
+
+  /**
+   * Starts recording requests: `fetch`/XHR calls with headers and bodies,
+   * plus every other resource from the Resource Timing API (URL, status,
+   * size and timings; the method is assumed to be `GET` and headers are
+   * unknown). Recording carries across navigations within one origin.
+   */
+  public async startHar(): Promise<void> {
+    if (this.harScript) throw new BrowserError("A HAR capture is already running");
+    this.harScript = await this._inject("window.__isoautomate.startHar(false);", "window.__isoautomate.startHar(true);");
+  }
+
+  /**
+   * Stops recording and writes a HAR 1.2 file through the artifact store.
+   * Resolves with the file's location and the HAR itself.
+   */
+  public async stopHar(filename?: string): Promise<{ path: string; har: Har }> {
+    if (!this.harScript) throw new BrowserError("No HAR capture is running; call startHar() first");
+    await this._cdp("Page.removeScriptToEvaluateOnNewDocument", { identifier: this.harScript });
+    this.harScript = null;
+
+    const raw = await this._evaluate("window.__isoautomate ? window.__isoautomate.stopHar() : '[]'");
+    const captured: CapturedRequest[] = JSON.parse(typeof raw === 'string' ? raw : "[]");
+    const har: Har = {
+      log: {
+        version: "1.2",
+        creator: { name: "isoautomate", version: creatorVersion() },
+        entries: captured.map(toHarEntry).sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime))
+      }
+    };
+
+    const name = filename ?? `network_${new Date().toISOString().replace(/[-:T.]/g, "").substring(0, 15)}.har`;
+    const stored = await this.writeArtifact(name, JSON.stringify(har, null, 2), "har");
+    return { path: stored.location, har };
+  }
+
+  // Registers `source` for future documents and runs it on the current one
+  private async _inject(source: string, current: string = source): Promise<string> {
+    const res = await this._cdp("Page.addScriptToEvaluateOnNewDocument", { source: `${PAGE_HOOK}\n${source}` });
+    await this._evaluate(`${PAGE_HOOK}\n${current}`);
+    const identifier = (res as { identifier?: string } | undefined)?.identifier;
+    if (!identifier) throw new BrowserError("Page.addScriptToEvaluateOnNewDocument returned no identifier", { action: "execute_cdp_cmd" });
+    return identifier;
+  }
+
+  private async _evaluate(expression: string): Promise<unknown> {
+    const res = await this._cdp("Runtime.evaluate", { expression, returnByValue: true }) as
+      { result?: { value?: unknown }; exceptionDetails?: { text?: string; exception?: { description?: string } } } | undefined;
+    if (res?.exceptionDetails) {
+      const details = res.exceptionDetails.exception?.description ?? res.exceptionDetails.text ?? "unknown error";
+      throw new BrowserError(`Page script failed: ${details}`, { action: "execute_cdp_cmd" });
+    }
+    return res?.result?.value;
+  }
+
+  private async _cdp(cmd: string, params: Record<string, unknown>): Promise<unknown> {
+    const res = await this.browser.execute_cdp_cmd(cmd, params, { throwOnError: true });
+    return res.status === "ok" ? res.result : undefined;
+  }
+}
+
+// ---------------------------------------------------------
+// HELPERS
+// ---------------------------------------------------------
+
+function toRegExp(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) return pattern;
+  const escaped = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&")).join(".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+function patternKey(pattern: string | RegExp): string {
+  return pattern instanceof RegExp ? `re:${pattern.source}/${pattern.flags}` : `glob:${pattern}`;
+}
+
+// Resolves a handler into the plain form the page hook understands
+function compileHandler(handler: RouteHandler): object {
+  if ("abort" in handler) return { abort: handler.abort === true ? "aborted" : handler.abort };
+  if ("modify" in handler) return { modify: { ...handler.modify } };
+
+  const { status = 200, statusText = "", json, contentType } = handler.fulfill;
+  const headers: Record<string, string> = { ...handler.fulfill.headers };
+  let body = handler.fulfill.body ?? "";
+  if (json !== undefined) body = JSON.stringify(json);
+  const type = contentType ?? (json !== undefined ? "application/json" : undefined);
+  if (type && !Object.keys(headers).some((k) => k.toLowerCase() === "content-type")) headers["content-type"] = type;
+  return { fulfill: { status, statusText, headers, body } };
+}
+
+function toHarEntry(req: CapturedRequest): HarEntry {
+  const requestHeaders = toHeaderList(req.requestHeaders);
+  const responseHeaders = toHeaderList(req.responseHeaders);
+  const mimeType = responseHeaders.find((h) => h.name.toLowerCase() === "content-type")?.value ?? "";
+  const requestType = requestHeaders.find((h) => h.name.toLowerCase() === "content-type")?.value ?? "";
+  const bodySize = req.size ?? (req.body != null ? Buffer.byteLength(req.body) : -1);
+  const time = Math.max(0, req.time ?? 0);
+  const t = req.timings;
+
+  let queryString: HarHeader[] = [];
+  try {
+    queryString = [...new URL(req.url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch (e) {
+    // Not an absolute URL; leave the query unparsed
+  }
+
+  const entry: HarEntry = {
+    startedDateTime: req.started,
+    time,
+    request: {
+      method: req.method,
+      url: req.url,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: requestHeaders,
+      queryString,
+      headersSize: -1,
+      bodySize: req.postData != null ? Buffer.byteLength(req.postData) : 0
+    },
+    response: {
+      status: req.status ?? 0,
+      statusText: req.statusText ?? "",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: responseHeaders,
+      content: { size: bodySize, mimeType },
+      redirectURL: "",
+      headersSize: -1,
+      bodySize
+    },
+    cache: {},
+    timings: t
+      ? { blocked: -1, dns: t.dns, connect: t.connect, ssl: t.ssl, send: 0, wait: t.wait, receive: t.receive }
+      : { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: time, receive: 0 },
+    _resourceType: req.type
+  };
+  if (req.postData != null) entry.request.postData = { mimeType: requestType, text: req.postData };
+  if (req.body != null) entry.response.content.text = req.body;
+  if (req.error) entry.response._error = req.error;
+  if (t) entry.comment = "From Resource Timing: method assumed, headers and body not captured";
+  return entry;
+}
+
+function toHeaderList(headers: Record<string, string> = {}): HarHeader[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function creatorVersion(): string {
+  try {
+    return require(path.join(__dirname, "..", "package.json")).version;
+  } catch (e) {
+    return "unknown";
+  }
+}
@@ -0,0 +1,212 @@
+import { Redis as RedisClient } from 'ioredis';
+
+import { AcquireOptions, BrowserClient, BrowserClientOptions, CallOptions } from './client';
+import { ActionResult } from './actions';
+import { createRunId } from './artifacts';
+import { BrowserError, NoBrowsersAvailableError } from './errors';
+import { connectRedis } from './connection';
+import { ResultRouter } from './router';
+
+export interface BrowserPoolOptions extends Omit<BrowserClientOptions, 'redis'> {
+  /** Maximum number of sessions held at once. */
+  maxConcurrency?: number;
+  /** Seconds an `acquire()` may wait for a free slot and browser. */
+  acquireTimeout?: number;
+  /** Default browser type for handles. */
+  browserType?: string;
+}
+
+export interface PoolAcquireOptions extends Omit<AcquireOptions, 'wait'> {
+  /** Overrides the pool's `acquireTimeout` for this request. */
+  timeout?: number;
+}
+
+interface SlotWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// Handles the pool is acquiring a browser for; any other acquire() is refused
+const claiming = new WeakSet<PooledBrowser>();
+
+/**
+ * A `BrowserClient` handed out by a `BrowserPool`. Releasing it (directly or
+ * through the pool) frees its slot. It cannot acquire another browser by
+ * itself, since that would bypass the pool's `maxConcurrency`.
+ */
+export class PooledBrowser extends BrowserClient {
+  constructor(options: BrowserClientOptions, private onRelease: (handle: PooledBrowser) => void) {
+    super(options);
+  }
+
+  public async acquire(...args: Parameters<BrowserClient['acquire']>): ReturnType<BrowserClient['acquire']> {
+    if (!claiming.has(this)) {
+      throw new BrowserError("A pooled browser cannot be re-acquired. Use pool.acquire() for another session.", { action: "acquire" });
+    }
+    return super.acquire(...args);
+  }
+
+  public async release(opts?: CallOptions): Promise<ActionResult<"release_browser">> {
+    try {
+      return await super.release(opts);
+    } finally {
+      this.onRelease(this);
+    }
+  }
+}
+
+/**
+ * Runs many browser sessions over one shared Redis connection.
+ */
+export class BrowserPool {
+  private r: RedisClient | null;
+  private clientOptions: BrowserClientOptions;
+  private maxConcurrency: number;
+  private acquireTimeout: number;
+  private browserType: string;
+
+  private active = new Set<PooledBrowser>();
+  private reserved = 0;
+  private queue: SlotWaiter[] = [];
+  private closed = false;
+
+  constructor(options: BrowserPoolOptions = {}) {
+    const { maxConcurrency, acquireTimeout, browserType, ...clientOptions } = options;
+    this.maxConcurrency = maxConcurrency ?? 10;
+    this.acquireTimeout = acquireTimeout ?? 60;
+    this.browserType = browserType ?? "chrome";
+
+    // A custom transport (e.g. a mock) replaces the shared connection
+    this.r = clientOptions.transport ? null : connectRedis(clientOptions);
+    // Handles share one run id so their artifacts land side by side
+    this.clientOptions = { ...clientOptions, redis: this.r ?? undefined, runId: clientOptions.runId ?? createRunId() };
+  }
+
+  /** Sessions currently held. */
+  public get size(): number {
+    return this.active.size;
+  }
+
+  /** Acquire requests waiting for a slot. */
+  public get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Waits for a free slot, then for a free browser, until the timeout.
+   */
+  public async acquire(options: PoolAcquireOptions = {}): Promise<PooledBrowser> {
+    const timeout = options.timeout ?? this.acquireTimeout;
+    const deadline = Date.now() + timeout * 1000;
+    const { timeout: _, ...acquireOptions } = options;
+
+    await this._reserve(timeout);
+
+    const handle = new PooledBrowser(this.clientOptions, (h) => this._free(h));
+    try {
+      if (this.closed) throw new BrowserError("Browser pool is closed.");
+      claiming.add(handle);
+      await handle.acquire({
+        ...acquireOptions,
+        browserType: options.browserType ?? this.browserType,
+        // Time spent queued for a slot counts against the same timeout
+        wait: Math.max(0, (deadline - Date.now()) / 1000)
+      });
+      if (this.closed) {
+        // close() ran while this browser was being claimed and did not see it
+        await handle.release({ throwOnError: false });
+        throw new BrowserError("Browser pool is closed.");
+      }
+    } catch (e) {
+      this._unreserve();
+      throw e;
+    } finally {
+      claiming.delete(handle);
+    }
+
+    this.reserved--;
+    this.active.add(handle);
+    return handle;
+  }
+
+  /**
+   * Releases a handle and frees its slot.
+   */
+  public async release(handle: PooledBrowser): Promise<ActionResult<"release_browser">> {
+    return handle.release();
+  }
+
+  /**
+   * Acquires a handle for the duration of `fn`, releasing it even if `fn` throws.
+   */
+  public async use<T>(fn: (browser: PooledBrowser) => Promise<T>, options: PoolAcquireOptions = {}): Promise<T> {
+    const handle = await this.acquire(options);
+    try {
+      return await fn(handle);
+    } finally {
+      await handle.release();
+    }
+  }
+
+  /**
+   * Rejects queued requests, releases every held handle and closes Redis.
+   */
+  public async close(): Promise<void> {
+    this.closed = true;
+    for (const waiter of this.queue.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new BrowserError("Browser pool is closed."));
+    }
+    try {
+      // One failed release must not keep the others' browsers held
+      await Promise.allSettled([...this.active].map((handle) => handle.release()));
+    } finally {
+      if (this.r) {
+        ResultRouter.for(this.r).close();
+        await this.r.quit();
+      }
+    }
+  }
+
+  // --- Slots ---
+
+  private _reserve(timeout: number): Promise<void> {
+    if (this.closed) return Promise.reject(new BrowserError("Browser pool is closed."));
+    if (this.active.size + this.reserved < this.maxConcurrency) {
+      this.reserved++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: SlotWaiter = {
+        resolve: () => {
+          clearTimeout(waiter.timer);
+          this.reserved++;
+          resolve();
+        },
+        reject,
+        timer: setTimeout(() => {
+          this.queue.splice(this.queue.indexOf(waiter), 1);
+          reject(new NoBrowsersAvailableError(`Timed out after ${timeout}s waiting for a pool slot.`, { action: "acquire" }));
+        }, timeout * 1000)
+      };
+      this.queue.push(waiter);
+    });
+  }
+
+  private _unreserve(): void {
+    this.reserved--;
+    this._next();
+  }
+
+  private _free(handle: PooledBrowser): void {
+    if (this.active.delete(handle)) this._next();
+  }
+
+  private _next(): void {
+    if (this.active.size + this.reserved >= this.maxConcurrency) return;
+    const waiter = this.queue.shift();
+    if (waiter) waiter.resolve();
+  }
+}
@@ -0,0 +1,249 @@
+import * as os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { Redis as RedisClient } from 'ioredis';
+
+import { AcquireOptions, BrowserClient, BrowserClientOptions } from './client';
+import { StorageState } from './actions';
+import { PROFILE_LOCK_PREFIX, PROFILES_KEY } from './config';
+import { connectRedis, RedisConnectionOptions } from './connection';
+import { BrowserError, ProfileLockedError, RedisTransportError } from './errors';
+
+export interface ProfileInfo {
+  name: string;
+  /** Id the worker keeps the browser's user data under. */
+  profile_id: string;
+  browser_type: string;
+  /** Worker holding the profile's data, set on first use. */
+  worker: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface CreateProfileOptions {
+  browserType?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface ProfileManagerOptions extends RedisConnectionOptions {
+  /** Existing connection to reuse. It is not closed by `close()`. */
+  redis?: RedisClient;
+  /** Seconds a profile lock outlives a crashed holder (default 300). */
+  lockTtl?: number;
+}
+
+/** Options for the browser session a profile is opened in. */
+export type ProfileSessionOptions = BrowserClientOptions & Omit<AcquireOptions, 'profile' | 'browserType'>;
+
+// Deletes/extends the lock only while it still holds our token
+const UNLOCK_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) end
+  return 0
+`;
+const RENEW_SCRIPT = `
+  if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('EXPIRE', KEYS[1], ARGV[2]) end
+  return 0
+`;
+
+/**
+ * Named, persistent browser profiles.
+ *
+ * Profiles are stored in the `<prefix>profiles` hash. Opening one takes a
+ * lock at `<prefix>profile_lock:<name>` for as long as the session lives,
+ * so two sessions never share a profile's user data. The session is pinned
+ * to the worker holding that data.
+ */
+export class ProfileManager {
+  private r: RedisClient;
+  private ownsConnection: boolean;
+  private lockTtl: number;
+  private unlocks = new WeakMap<BrowserClient, () => Promise<void>>();
+
+  constructor(options: ProfileManagerOptions = {}) {
+    this.lockTtl = options.lockTtl ?? 300;
+    if (options.redis) {
+      this.r = options.redis;
+      this.ownsConnection = false;
+    } else {
+      this.r = connectRedis(options);
+      this.ownsConnection = true;
+    }
+  }
+
+  // --- Registry ---
+
+  public async create(name: string, options: CreateProfileOptions = {}): Promise<ProfileInfo> {
+    const profile: ProfileInfo = {
+      name,
+      profile_id: `user_${uuidv4().replace(/-/g, '').substring(0, 8)}`,
+      browser_type: options.browserType ?? "chrome",
+      worker: null,
+      created_at: new Date().toISOString(),
+      last_used_at: null,
+      metadata: options.metadata ?? {}
+    };
+
+    const created = await this._guard(() => this.r.hsetnx(PROFILES_KEY, name, JSON.stringify(profile)));
+    if (!created) throw new BrowserError(`Profile '${name}' already exists.`);
+    return profile;
+  }
+
+  public async get(name: string): Promise<ProfileInfo | null> {
+    const raw = await this._guard(() => this.r.hget(PROFILES_KEY, name));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  /** Every profile, sorted by name. */
+  public async list(): Promise<ProfileInfo[]> {
+    const all = await this._guard(() => this.r.hgetall(PROFILES_KEY));
+    return Object.values(all).map((raw) => JSON.parse(raw) as ProfileInfo).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Removes a profile from the registry. Its user data stays on the worker.
+   */
+  public async delete(name: string): Promise<boolean> {
+    if (await this.isLocked(name)) throw new ProfileLockedError(`Profile '${name}' is in use.`);
+    return (await this._guard(() => this.r.hdel(PROFILES_KEY, name))) > 0;
+  }
+
+  /**
+   * Creates `target` with a copy of `source`'s storage state (cookies and
+   * local storage), by opening each in turn.
+   */
+  public async clone(source: string, target: string, options: ProfileSessionOptions = {}): Promise<ProfileInfo> {
+    const original = await this._require(source);
+    const state = await this.exportState(source, options);
+    await this.create(target, { browserType: original.browser_type, metadata: { ...original.metadata, cloned_from: source } });
+    try {
+      await this.importState(target, state, options);
+    } catch (e) {
+      // Don't leave an empty profile behind under the new name
+      await this.delete(target).catch(() => false);
+      throw e;
+    }
+    return (await this.get(target))!;
+  }
+
+  public async isLocked(name: string): Promise<boolean> {
+    return (await this._guard(() => this.r.exists(`${PROFILE_LOCK_PREFIX}${name}`))) === 1;
+  }
+
+  // --- Sessions ---
+
+  /**
+   * Locks the profile and acquires a browser with it. The lock is held
+   * until the returned client is released; a crashed holder's lock expires
+   * after `lockTtl` seconds.
+   */
+  public async open(name: string, options: ProfileSessionOptions = {}): Promise<BrowserClient> {
+    const profile = await this._require(name);
+    const lockKey = `${PROFILE_LOCK_PREFIX}${name}`;
+    const token = `${os.hostname()}:${process.pid}:${uuidv4()}`;
+
+    const locked = await this._guard(() => this.r.set(lockKey, token, "EX", this.lockTtl, "NX"));
+    if (!locked) throw new ProfileLockedError(`Profile '${name}' is in use by another session.`);
+
+    const renew = setInterval(() => {
+      this.r.eval(RENEW_SCRIPT, 1, lockKey, token, this.lockTtl).catch(() => {
+        // Retried on the next tick
+      });
+    }, (this.lockTtl * 1000) / 3);
+    // Never keep the process alive just to hold a lock
+    renew.unref();
+
+    let unlocking: Promise<void> | null = null;
+    const unlock = () => unlocking ??= (async () => {
+      clearInterval(renew);
+      await this.r.eval(UNLOCK_SCRIPT, 1, lockKey, token).catch(() => {
+        // The lock will simply expire
+      });
+    })();
+
+    const browser = new BrowserClient(options);
+    try {
+      const acquired = await browser.acquire({
+        ...options,
+        browserType: profile.browser_type,
+        profile: profile.profile_id,
+        // The profile's user data only exists on the worker that created it
+        worker: options.worker ?? profile.worker ?? undefined
+      });
+      await this._touch(name, acquired.worker);
+    } catch (e) {
+      // The profile's browser may already be held; free it before the lock
+      if (browser.session) await browser.release({ throwOnError: false });
+      await unlock();
+      await browser.close();
+      throw e;
+    }
+
+    browser.once("release", () => {
+      unlock();
+    });
+    this.unlocks.set(browser, unlock);
+    return browser;
+  }
+
+  /**
+   * Opens the profile for the duration of `fn`, then releases the browser
+   * and closes the client.
+   */
+  public async use<T>(name: string, fn: (browser: BrowserClient) => Promise<T>, options: ProfileSessionOptions = {}): Promise<T> {
+    const browser = await this.open(name, options);
+    try {
+      return await fn(browser);
+    } finally {
+      try {
+        if (browser.session) await browser.release();
+      } finally {
+        // Free for the next caller before returning
+        await this.unlocks.get(browser)?.();
+        await browser.close();
+      }
+    }
+  }
+
+  /** The profile's storage state, via `export_session`. */
+  public async exportState(name: string, options: ProfileSessionOptions = {}): Promise<StorageState> {
+    return this.use(name, async (browser) => {
+      const res = await browser.export_session({ throwOnError: true });
+      return res.status === "ok" ? res.state : {};
+    }, options);
+  }
+
+  /** Loads a storage state into the profile, via `import_session`. */
+  public async importState(name: string, state: StorageState, options: ProfileSessionOptions = {}): Promise<void> {
+    await this.use(name, (browser) => browser.import_session(state, { throwOnError: true }), options);
+  }
+
+  /**
+   * Close the Redis connection if the manager opened it.
+   */
+  public async close(): Promise<void> {
+    if (this.ownsConnection) await this.r.quit();
+  }
+
+  private async _require(name: string): Promise<ProfileInfo> {
+    const profile = await this.get(name);
+    if (!profile) throw new BrowserError(`Profile '${name}' does not exist.`);
+    return profile;
+  }
+
+  // Records the last use and, the first time, the worker now holding the data
+  private async _touch(name: string, worker: string): Promise<void> {
+    const profile = await this.get(name);
+    if (!profile) return;
+    profile.last_used_at = new Date().toISOString();
+    profile.worker ??= worker;
+    await this._guard(() => this.r.hset(PROFILES_KEY, name, JSON.stringify(profile)));
+  }
+
+  private async _guard<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (e: any) {
+      throw new RedisTransportError(`Redis Profile Error: ${e.message}`);
+    }
+  }
+}
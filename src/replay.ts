@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { Result, TaskPayload } from './actions';
+import { connectRedis } from './connection';
+import { ReplayMismatchError } from './errors';
+import { BrowserRef } from './fleet';
+import { MockTransport } from './mock';
+import { LeaseOptions, RedisTransport, Transport } from './transport';
+
+export interface RecordedTask {
+  action: string;
+  args: unknown;
+  /** null when the worker did not answer in time. */
+  result: Result | null;
+}
+
+/** Contents of a record/replay fixture file. */
+export interface TransportFixture {
+  version: 1;
+  recorded_at: string;
+  /** Browsers handed out by `claim` or taken over by `adopt`, in order. */
+  sessions: BrowserRef[];
+  /** Tasks the worker ran, in queue order. */
+  tasks: RecordedTask[];
+}
+
+/**
+ * Passes everything through to a live transport and records the browsers
+ * claimed and every task with its result. `save()` (or `close()`) writes
+ * them to a fixture file for `ReplayTransport`.
+ */
+export class RecordingTransport implements Transport {
+  private sessions: BrowserRef[] = [];
+  private tasks: RecordedTask[] = [];
+  private pending = new Map<string, RecordedTask>();
+
+  constructor(private inner: Transport, private file: string) {}
+
+  public listWorkers(): Promise<string[]> {
+    return this.inner.listWorkers();
+  }
+
+  public workerLabels(workers: string[]): Promise<Record<string, string>[]> {
+    return this.inner.workerLabels(workers);
+  }
+
+  public async claim(browserType: string, candidates: string[] | null, lease: LeaseOptions): Promise<BrowserRef | null> {
+    const claimed = await this.inner.claim(browserType, candidates, lease);
+    if (claimed) this.sessions.push(claimed);
+    return claimed;
+  }
+
+  public async adopt(browser: BrowserRef, lease: LeaseOptions): Promise<boolean> {
+    const adopted = await this.inner.adopt(browser, lease);
+    if (adopted) this.sessions.push(browser);
+    return adopted;
+  }
+
+  public renewLease(browser: BrowserRef, lease: LeaseOptions): Promise<void> {
+    return this.inner.renewLease(browser, lease);
+  }
+
+  public endLease(browser: BrowserRef): Promise<void> {
+    return this.inner.endLease(browser);
+  }
+
+  public async push(worker: string, payloads: TaskPayload[]): Promise<void> {
+    await this.inner.push(worker, payloads);
+    // Recorded in queue order, which is the order the worker runs them
+    for (const payload of payloads) {
+      const task: RecordedTask = { action: payload.action, args: payload.args, result: null };
+      this.tasks.push(task);
+      this.pending.set(payload.task_id, task);
+    }
+  }
+
+  public async result(payload: TaskPayload, timeout: number, signal?: AbortSignal): Promise<Result | null> {
+    const result = await this.inner.result(payload, timeout, signal);
+    const task = this.pending.get(payload.task_id);
+    if (task) task.result = result;
+    this.pending.delete(payload.task_id);
+    return result;
+  }
+
+  public async withdraw(worker: string, payloads: TaskPayload[]): Promise<boolean[]> {
+    const withdrawn = await this.inner.withdraw(worker, payloads);
+    // Withdrawn tasks never ran, so they are not part of the recording
+    payloads.forEach((payload, i) => {
+      const task = this.pending.get(payload.task_id);
+      if (!withdrawn[i] || !task) return;
+      this.tasks.splice(this.tasks.indexOf(task), 1);
+      this.pending.delete(payload.task_id);
+    });
+    return withdrawn;
+  }
+
+  public cancel(payload: TaskPayload): Promise<void> {
+    return this.inner.cancel(payload);
+  }
+
+  public reclaim(options: { dryRun?: boolean }): Promise<BrowserRef[]> {
+    return this.inner.reclaim(options);
+  }
+
+  /** The recording so far. */
+  public fixture(): TransportFixture {
+    return { version: 1, recorded_at: new Date().toISOString(), sessions: [...this.sessions], tasks: [...this.tasks] };
+  }
+
+  /** Writes the fixture file. */
+  public async save(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(path.resolve(this.file)), { recursive: true });
+    await fs.promises.writeFile(this.file, JSON.stringify(this.fixture(), null, 2));
+  }
+
+  /** Saves the fixture and closes the live transport. */
+  public async close(): Promise<void> {
+    await this.save();
+    await this.inner.close();
+  }
+}
+
+export interface ReplayTransportOptions {
+  /** Require recorded arguments to match exactly, not just the action (default: true). */
+  matchArgs?: boolean;
+}
+
+/**
+ * Answers tasks from a fixture recorded by `RecordingTransport`, in order.
+ * A task that differs from the recording raises `ReplayMismatchError`.
+ */
+export class ReplayTransport extends MockTransport {
+  private fixture: TransportFixture;
+  private nextSession = 0;
+  private nextTask = 0;
+  private matchArgs: boolean;
+
+  constructor(fixture: TransportFixture | string, options: ReplayTransportOptions = {}) {
+    const data: TransportFixture = typeof fixture === 'string' ? JSON.parse(fs.readFileSync(fixture, 'utf-8')) : fixture;
+    const workers: Record<string, { browsers: Record<string, number> }> = {};
+    for (const session of data.sessions) workers[session.worker] ??= { browsers: {} };
+    super({ workers });
+
+    this.fixture = data;
+    this.matchArgs = options.matchArgs ?? true;
+  }
+
+  /** Tasks of the recording not replayed yet. */
+  public get remaining(): number {
+    return this.fixture.tasks.length - this.nextTask;
+  }
+
+  // Hands out the recorded browsers in order, whatever is asked for
+  public async claim(browserType: string): Promise<BrowserRef | null> {
+    const session = this.fixture.sessions[this.nextSession];
+    if (!session) return null;
+    this.nextSession++;
+    return { ...session, browser_type: browserType };
+  }
+
+  // Succeeds when the next recorded browser is the one asked for
+  public async adopt(browser: BrowserRef): Promise<boolean> {
+    const session = this.fixture.sessions[this.nextSession];
+    if (!session || session.worker !== browser.worker || session.browser_id !== browser.browser_id) return false;
+    this.nextSession++;
+    return true;
+  }
+
+  protected async _run(payload: TaskPayload): Promise<Result | null> {
+    this.calls.push(payload);
+    const index = this.nextTask;
+    const recorded = this.fixture.tasks[index];
+    const context = { task_id: payload.task_id, action: payload.action, worker: payload.worker_name, browser_id: payload.browser_id };
+
+    if (!recorded) {
+      throw new ReplayMismatchError(`Unexpected task #${index + 1} '${payload.action}': the recording has only ${this.fixture.tasks.length}`, context);
+    }
+    if (recorded.action !== payload.action) {
+      throw new ReplayMismatchError(`Task #${index + 1}: expected '${recorded.action}', got '${payload.action}'`, context);
+    }
+    if (this.matchArgs && JSON.stringify(recorded.args) !== JSON.stringify(payload.args)) {
+      throw new ReplayMismatchError(
+        `Task #${index + 1} '${payload.action}': expected args ${JSON.stringify(recorded.args)}, got ${JSON.stringify(payload.args)}`,
+        context
+      );
+    }
+
+    this.nextTask++;
+    // A recorded timeout replays as one
+    return recorded.result;
+  }
+}
+
+/**
+ * Replays `file` by default. With `record` (or `ISOAUTOMATE_RECORD=1`) it
+ * runs against the live fleet instead and records into `file`.
+ */
+export function replayOrRecord(file: string, options: { record?: boolean; live?: () => Transport } & ReplayTransportOptions = {}): Transport {
+  const record = options.record ?? process.env.ISOAUTOMATE_RECORD === "1";
+  if (!record) return new ReplayTransport(file, options);
+  return new RecordingTransport(options.live ? options.live() : new RedisTransport(connectRedis({}), true), file);
+}
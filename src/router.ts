@@ -0,0 +1,172 @@
+import { Redis as RedisClient } from 'ioredis';
+
+// Upper bound for a single BLPOP so expired waiters are noticed promptly
+const MAX_BLOCK_SECONDS = 5;
+// Without CLIENT UNBLOCK, new keys are only picked up when a BLPOP returns
+const FALLBACK_BLOCK_SECONDS = 1;
+
+interface Waiter {
+  resolve: (value: string | null) => void;
+  reject: (error: Error) => void;
+  deadline: number;
+}
+
+// One router per command connection, shared by every client using it
+const routers = new WeakMap<RedisClient, ResultRouter>();
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error("Aborted");
+}
+
+/**
+ * Waits for task results on behalf of every session sharing a connection.
+ *
+ * BLPOP blocks the connection it runs on, so sessions cannot share one for
+ * results. The router keeps a single duplicate connection that BLPOPs on all
+ * pending result keys at once and hands each value to its waiter. When a new
+ * key arrives mid-block, `CLIENT UNBLOCK` restarts the BLPOP with it; on
+ * servers or proxies that forbid `CLIENT`, short BLPOPs are used instead.
+ */
+export class ResultRouter {
+  private blocker: RedisClient | null = null;
+  private blockerId: number | null = null;
+  private waiters = new Map<string, Waiter>();
+  private blocking: Set<string> | null = null;
+  private looping = false;
+  private closed = false;
+
+  private constructor(private r: RedisClient) {}
+
+  /**
+   * Returns the router bound to a command connection, creating it on first use.
+   */
+  public static for(r: RedisClient): ResultRouter {
+    let router = routers.get(r);
+    if (!router) {
+      router = new ResultRouter(r);
+      routers.set(r, router);
+    }
+    return router;
+  }
+
+  /**
+   * Resolves with the value popped from `key`, or null once `timeout`
+   * seconds pass without one (`0` waits indefinitely, like `BLPOP 0`).
+   * Rejects as soon as `signal` aborts.
+   */
+  public wait(key: string, timeout: number, signal?: AbortSignal): Promise<string | null> {
+    if (this.closed) return Promise.reject(new Error("Result router is closed"));
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        // A result popped later for this key is simply dropped
+        if (this.waiters.get(key) === waiter) this.waiters.delete(key);
+        reject(abortReason(signal!));
+      };
+      const waiter: Waiter = {
+        resolve: (value) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+        deadline: timeout > 0 ? Date.now() + timeout * 1000 : Infinity
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.set(key, waiter);
+      this._wake(key);
+      this._loop();
+    });
+  }
+
+  /**
+   * Rejects pending waiters and drops the blocking connection.
+   */
+  public close(): void {
+    this.closed = true;
+    this._rejectAll(new Error("Result router is closed"));
+    if (this.blocker) {
+      // quit() would queue behind an active BLPOP
+      this.blocker.disconnect();
+      this.blocker = null;
+    }
+    routers.delete(this.r);
+  }
+
+  private async _connect(): Promise<RedisClient> {
+    if (!this.blocker) {
+      this.blocker = this.r.duplicate();
+      try {
+        this.blockerId = Number(await this.blocker.client("ID"));
+      } catch {
+        this.blockerId = null;
+      }
+    }
+    return this.blocker;
+  }
+
+  private async _loop(): Promise<void> {
+    if (this.looping) return;
+    this.looping = true;
+
+    try {
+      const blocker = await this._connect();
+
+      while (this.waiters.size > 0 && !this.closed) {
+        this._expire();
+        if (this.waiters.size === 0) break;
+
+        const keys = [...this.waiters.keys()];
+        const nearest = Math.min(...[...this.waiters.values()].map((w) => w.deadline));
+        const cap = this.blockerId === null ? FALLBACK_BLOCK_SECONDS : MAX_BLOCK_SECONDS;
+        const seconds = Math.min(cap, Math.max(1, Math.ceil((nearest - Date.now()) / 1000)));
+
+        this.blocking = new Set(keys);
+        const resp = await blocker.blpop(keys, seconds);
+        this.blocking = null;
+
+        if (resp) {
+          // resp[0] is key, resp[1] is value
+          const waiter = this.waiters.get(resp[0]);
+          if (waiter) {
+            this.waiters.delete(resp[0]);
+            waiter.resolve(resp[1]);
+          }
+        }
+      }
+    } catch (e: any) {
+      this.blocking = null;
+      if (!this.closed) this._rejectAll(e);
+    } finally {
+      this.looping = false;
+    }
+  }
+
+  // Restart an in-flight BLPOP so it also watches `key`
+  private _wake(key: string): void {
+    if (!this.blocking || this.blocking.has(key) || this.blockerId === null) return;
+    this.r.client("UNBLOCK", this.blockerId).catch(() => {
+      // Fall back to short blocks; the key is picked up when this one returns
+      this.blockerId = null;
+    });
+  }
+
+  private _expire(): void {
+    const now = Date.now();
+    for (const [key, waiter] of this.waiters) {
+      if (waiter.deadline <= now) {
+        this.waiters.delete(key);
+        waiter.resolve(null);
+      }
+    }
+  }
+
+  private _rejectAll(error: Error): void {
+    for (const waiter of this.waiters.values()) waiter.reject(error);
+    this.waiters.clear();
+  }
+}
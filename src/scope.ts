@@ -0,0 +1,24 @@
+import { AcquireOptions, BrowserClient, BrowserClientOptions } from './client';
+
+export type WithBrowserOptions = BrowserClientOptions & AcquireOptions;
+
+/**
+ * Acquires a browser, runs `fn` with it and always releases the browser and
+ * closes the client afterwards, even when `fn` throws.
+ */
+export async function withBrowser<T>(
+  options: WithBrowserOptions,
+  fn: (browser: BrowserClient) => Promise<T>
+): Promise<T> {
+  const browser = new BrowserClient(options);
+  try {
+    await browser.acquire(options);
+    return await fn(browser);
+  } finally {
+    try {
+      if (browser.session) await browser.release();
+    } finally {
+      await browser.close();
+    }
+  }
+}
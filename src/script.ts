@@ -0,0 +1,496 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+
+import { AcquireOptions, BrowserClient, CallOptions } from './client';
+import { ActionArgs, ActionName, AssertionAction, Cookie, Result, isActionName } from './actions';
+import { AssertionFailedError, BrowserError, TaskCancelledError } from './errors';
+import { withBrowser, WithBrowserOptions } from './scope';
+
+// ---------------------------------------------------------
+// SCRIPT FORMAT
+// ---------------------------------------------------------
+
+export interface ActionStep {
+  /** Name used to reference this step's output as `${steps.<id>...}`. */
+  id?: string;
+  action: string;
+  args?: Record<string, unknown>;
+  /** Seconds before the step is abandoned. */
+  timeout?: number;
+  /** Record the failure and keep going instead of stopping the run. */
+  continueOnError?: boolean;
+  if?: unknown;
+}
+
+export interface IfStep {
+  if: unknown;
+  steps: Step[];
+  else?: Step[];
+}
+
+export interface LoopStep {
+  loop: { times?: number; over?: unknown; as?: string };
+  steps: Step[];
+  if?: unknown;
+}
+
+export type Step = ActionStep | IfStep | LoopStep;
+
+export interface Script {
+  name?: string;
+  browserType?: string;
+  video?: boolean;
+  record?: boolean;
+  profile?: boolean | string | null;
+  /** Default per-step timeout in seconds. */
+  timeout?: number;
+  /** Values available as `${vars.<name>}`; interpolated once at start. */
+  vars?: Record<string, unknown>;
+  steps: Step[];
+}
+
+export interface StepReport {
+  index: string;
+  id?: string;
+  action: string;
+  status: "ok" | "error" | "fail" | "skipped";
+  duration_ms: number;
+  args?: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface ScriptReport {
+  name?: string;
+  status: "ok" | "error";
+  started_at: string;
+  duration_ms: number;
+  steps: StepReport[];
+}
+
+export interface RunScriptOptions extends WithBrowserOptions {
+  /** Run on this already-acquired client instead of acquiring one. */
+  browser?: BrowserClient;
+  /** Source for `${env.<NAME>}`; defaults to `process.env`. */
+  env?: Record<string, string | undefined>;
+  /** Called after every executed or skipped step. */
+  onStep?: (step: StepReport) => void;
+}
+
+export class ScriptValidationError extends BrowserError {
+  public problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid script:\n  - ${problems.join("\n  - ")}`);
+    this.name = "ScriptValidationError";
+    this.problems = problems;
+  }
+}
+
+// ---------------------------------------------------------
+// STEP DISPATCH
+// ---------------------------------------------------------
+
+// Step arguments as written in the script, after interpolation
+type StepArgs = Record<string, unknown>;
+
+// What a step resolves to: a worker result or a local one shaped like it
+interface StepOutcome {
+  status: "ok" | "error" | "fail";
+  error?: string;
+  [field: string]: unknown;
+}
+
+// Arguments of the client helpers that do local work on top of an action
+interface ClientStepArgs {
+  screenshot: { filename?: string; selector?: string };
+  save_as_pdf: { filename?: string };
+  save_page_source: { name?: string };
+  save_cookies: { name?: string };
+  load_cookies: { name?: string; cookies?: Cookie[] };
+  upload_file: { selector: string; path: string };
+}
+
+type ClientStep = keyof ClientStepArgs;
+
+// Client methods that do local work (files) on top of the worker action.
+// They take precedence over the raw worker action of the same name.
+const CLIENT_STEPS: { [S in ClientStep]: (b: BrowserClient, a: ClientStepArgs[S], o: CallOptions) => Promise<Result> } = {
+  screenshot: (b, a, o) => b.screenshot(a.filename, a.selector, o),
+  save_as_pdf: (b, a, o) => b.save_as_pdf(a.filename, o),
+  save_page_source: (b, a, o) => b.save_page_source(a.name, o),
+  save_cookies: (b, a, o) => b.save_cookies(a.name, o),
+  load_cookies: (b, a, o) => b.load_cookies(a.name, a.cookies, o),
+  upload_file: (b, a, o) => b.upload_file(a.selector, a.path, o)
+};
+
+// Assertions go through the client's assertion path, which saves the
+// failure screenshot, and report where it went instead of the raw image
+const ASSERT_STEPS: { [A in AssertionAction]: (b: BrowserClient, a: ActionArgs<A>, o: CallOptions) => Promise<true> } = {
+  assert_text: (b, a, o) => b.assert_text(a.text, a.selector, a.screenshot, o),
+  assert_exact_text: (b, a, o) => b.assert_exact_text(a.text, a.selector, a.screenshot, o),
+  assert_text_not_visible: (b, a, o) => b.assert_text_not_visible(a.text, a.selector, a.screenshot, o),
+  assert_element: (b, a, o) => b.assert_element(a.selector, a.screenshot, o),
+  assert_element_present: (b, a, o) => b.assert_element_present(a.selector, a.screenshot, o),
+  assert_element_absent: (b, a, o) => b.assert_element_absent(a.selector, a.screenshot, o),
+  assert_element_not_visible: (b, a, o) => b.assert_element_not_visible(a.selector, a.screenshot, o),
+  assert_title: (b, a, o) => b.assert_title(a.title, a.screenshot, o),
+  assert_url: (b, a, o) => b.assert_url(a.url, a.screenshot, o),
+  assert_attribute: (b, a, o) => b.assert_attribute(a.selector, a.attribute, a.value, a.screenshot, o)
+};
+
+// Mirrors the defaults of the matching BrowserClient methods
+const ACTION_DEFAULTS: { [A in ActionName]?: Partial<ActionArgs<A>> } = {
+  reload: { ignore_cache: true },
+  click_visible_elements: { limit: 0 },
+  click_nth_element: { number: 1 },
+  click_nth_visible_element: { number: 1 },
+  click_with_offset: { center: false },
+  gui_click_element: { timeframe: 0.25 },
+  gui_click_x_y: { timeframe: 0.25 },
+  gui_drag_and_drop: { timeframe: 0.35 },
+  switch_to_tab: { index: -1 },
+  switch_to_window: { index: -1 },
+  get_text: { selector: "body" },
+  flash: { duration: 1 },
+  scroll_down: { amount: 25 },
+  scroll_up: { amount: 25 },
+  wait_for_text: { selector: "html" },
+  assert_text: { selector: "html", screenshot: true },
+  assert_exact_text: { selector: "html", screenshot: true },
+  assert_text_not_visible: { selector: "html", screenshot: true },
+  assert_element: { screenshot: true },
+  assert_element_present: { screenshot: true },
+  assert_element_absent: { screenshot: true },
+  assert_element_not_visible: { screenshot: true },
+  assert_title: { screenshot: true },
+  assert_url: { screenshot: true },
+  assert_attribute: { screenshot: true }
+};
+
+/** Action names a script step may use. */
+export function isStepAction(name: string): boolean {
+  return hasOwn(CLIENT_STEPS, name) || isActionName(name);
+}
+
+// `in` would also accept inherited names such as `constructor` or `toString`
+function hasOwn(table: object, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(table, name);
+}
+
+// ---------------------------------------------------------
+// LOADING & VALIDATION
+// ---------------------------------------------------------
+
+/**
+ * Parses a JSON or YAML script (YAML is a superset, so both go through the
+ * YAML parser) and validates it. A bare list is taken as the steps.
+ */
+export function parseScript(source: string): Script {
+  let raw: any;
+  try {
+    raw = YAML.parse(source);
+  } catch (e: any) {
+    throw new ScriptValidationError([`Could not parse script: ${e.message}`]);
+  }
+  const script: Script = Array.isArray(raw) ? { steps: raw } : raw;
+  validateScript(script);
+  return script;
+}
+
+export function loadScript(file: string): Script {
+  return parseScript(fs.readFileSync(path.resolve(file), 'utf-8'));
+}
+
+/**
+ * Checks structure, action names and step references without touching
+ * Redis, so a bad script fails before a browser is acquired.
+ */
+export function validateScript(script: Script): void {
+  const problems: string[] = [];
+  const ids = new Set<string>();
+
+  if (!script || typeof script !== 'object' || !Array.isArray(script.steps)) {
+    throw new ScriptValidationError(["Script must be a list of steps or an object with a 'steps' list"]);
+  }
+  if (script.timeout !== undefined && !(typeof script.timeout === 'number' && script.timeout > 0)) {
+    problems.push("'timeout' must be a positive number of seconds");
+  }
+
+  const checkRefs = (value: unknown, where: string) => {
+    for (const ref of findStepRefs(value)) {
+      if (!ids.has(ref)) problems.push(`${where}: references unknown or later step '${ref}'`);
+    }
+  };
+
+  const walk = (steps: Step[], prefix: string) => {
+    steps.forEach((step: any, i) => {
+      const where = `Step ${prefix}${i + 1}`;
+      if (!step || typeof step !== 'object') {
+        problems.push(`${where}: must be an object`);
+        return;
+      }
+      if ('if' in step) checkRefs(step.if, where);
+
+      if ('loop' in step) {
+        const loop = step.loop ?? {};
+        if (loop.times === undefined && loop.over === undefined) problems.push(`${where}: loop needs 'times' or 'over'`);
+        if (loop.times !== undefined && !validTimes(loop.times)) {
+          problems.push(`${where}: loop 'times' must be a number`);
+        }
+        if (loop.as !== undefined && (typeof loop.as !== 'string' || RESERVED_NAMES.includes(loop.as))) {
+          problems.push(`${where}: loop 'as' must be a name other than ${RESERVED_NAMES.map((n) => `'${n}'`).join(", ")}`);
+        }
+        checkRefs(loop.over, where);
+        if (!Array.isArray(step.steps)) problems.push(`${where}: loop needs a 'steps' list`);
+        else walk(step.steps, `${prefix}${i + 1}.`);
+        return;
+      }
+
+      if ('steps' in step) {
+        if (!('if' in step)) problems.push(`${where}: nested 'steps' need an 'if' or 'loop'`);
+        if (!Array.isArray(step.steps)) problems.push(`${where}: 'steps' must be a list`);
+        else walk(step.steps, `${prefix}${i + 1}.`);
+        if (step.else !== undefined) {
+          if (!Array.isArray(step.else)) problems.push(`${where}: 'else' must be a list`);
+          else walk(step.else, `${prefix}${i + 1}.else.`);
+        }
+        return;
+      }
+
+      if (typeof step.action !== 'string') {
+        problems.push(`${where}: missing 'action'`);
+        return;
+      }
+      if (!isStepAction(step.action)) problems.push(`${where}: unknown action '${step.action}'`);
+      if (step.args !== undefined && (typeof step.args !== 'object' || Array.isArray(step.args))) {
+        problems.push(`${where}: 'args' must be an object`);
+      }
+      if (step.timeout !== undefined && !(typeof step.timeout === 'number' && step.timeout > 0)) {
+        problems.push(`${where}: 'timeout' must be a positive number of seconds`);
+      }
+      checkRefs(step.args, where);
+      if (step.id !== undefined) {
+        if (ids.has(step.id)) problems.push(`${where}: duplicate id '${step.id}'`);
+        ids.add(step.id);
+      }
+    });
+  };
+
+  walk(script.steps, "");
+  if (problems.length) throw new ScriptValidationError(problems);
+}
+
+// Placeholder namespaces a loop variable must not shadow
+const RESERVED_NAMES = ["env", "vars", "steps", "loop"];
+
+// A count, or a string that is one once interpolated
+function validTimes(times: unknown): boolean {
+  if (typeof times === 'number') return Number.isInteger(times) && times >= 0;
+  return typeof times === 'string' && (times.includes("${") || validTimes(Number(times)));
+}
+
+// ---------------------------------------------------------
+// INTERPOLATION
+// ---------------------------------------------------------
+
+const PLACEHOLDER = /\$\{([^}]+)\}/g;
+
+function findStepRefs(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [...value.matchAll(PLACEHOLDER)]
+      .map((m) => m[1].trim().split("."))
+      .filter((parts) => parts[0] === "steps" && parts[1])
+      .map((parts) => parts[1]);
+  }
+  if (value && typeof value === 'object') return Object.values(value).flatMap(findStepRefs);
+  return [];
+}
+
+function lookup(scope: Record<string, unknown>, expression: string): unknown {
+  return expression.trim().split(".").reduce<any>((value, key) => (value == null ? undefined : value[key]), scope);
+}
+
+/**
+ * Replaces `${path}` placeholders. A string that is exactly one placeholder
+ * keeps the referenced value's type; otherwise values are stringified.
+ */
+function interpolate(value: unknown, scope: Record<string, unknown>): any {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\$\{([^}]+)\}$/);
+    if (whole) return lookup(scope, whole[1]);
+    return value.replace(PLACEHOLDER, (_, expr) => {
+      const v = lookup(scope, expr);
+      if (v === undefined || v === null) return "";
+      return typeof v === 'object' ? JSON.stringify(v) : String(v);
+    });
+  }
+  if (Array.isArray(value)) return value.map((v) => interpolate(v, scope));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, interpolate(v, scope)]));
+  }
+  return value;
+}
+
+function truthy(value: unknown): boolean {
+  if (typeof value === 'string') return !["", "false", "0", "null", "undefined", "no"].includes(value.trim().toLowerCase());
+  return Boolean(value);
+}
+
+// ---------------------------------------------------------
+// RUNNER
+// ---------------------------------------------------------
+
+/**
+ * Validates and runs a script, returning a per-step report. Step failures
+ * are recorded in the report rather than thrown; only validation, acquire
+ * and transport problems reject.
+ */
+export async function runScript(script: Script, options: RunScriptOptions = {}): Promise<ScriptReport> {
+  validateScript(script);
+
+  const { browser, env, onStep, ...clientOptions } = options;
+  const started = Date.now();
+  const report: ScriptReport = {
+    name: script.name,
+    status: "ok",
+    started_at: new Date(started).toISOString(),
+    duration_ms: 0,
+    steps: []
+  };
+
+  const execute = async (client: BrowserClient) => {
+    const scope: Record<string, unknown> = { env: env ?? process.env, steps: {}, vars: {} };
+    scope.vars = interpolate(script.vars ?? {}, scope);
+    await runSteps(client, script.steps, "", scope, script, report, onStep);
+  };
+
+  if (browser) {
+    await execute(browser);
+  } else {
+    const acquire: AcquireOptions = {
+      browserType: script.browserType,
+      video: script.video,
+      record: script.record,
+      profile: script.profile
+    };
+    // Explicit options win over what the script asks for
+    const merged: WithBrowserOptions = { ...clientOptions };
+    for (const key of Object.keys(acquire) as (keyof typeof acquire)[]) {
+      if (merged[key] === undefined) Object.assign(merged, { [key]: acquire[key] });
+    }
+    await withBrowser(merged, execute);
+  }
+
+  report.duration_ms = Date.now() - started;
+  return report;
+}
+
+// Returns false once the run must stop
+async function runSteps(
+  client: BrowserClient,
+  steps: Step[],
+  prefix: string,
+  scope: Record<string, unknown>,
+  script: Script,
+  report: ScriptReport,
+  onStep?: (step: StepReport) => void
+): Promise<boolean> {
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    const index = `${prefix}${i + 1}`;
+
+    if ('loop' in step) {
+      if ('if' in step && !truthy(interpolate(step.if, scope))) continue;
+      const over = step.loop.over !== undefined ? interpolate(step.loop.over, scope) : undefined;
+      const times = Array.isArray(over) ? over.length : Number(interpolate(step.loop.times, scope));
+      if (!Number.isInteger(times) || times < 0) {
+        const problem = step.loop.over !== undefined ? "loop 'over' is not a list" : "loop 'times' is not a whole number";
+        const entry: StepReport = { index, action: "loop", status: "error", duration_ms: 0, error: problem };
+        report.steps.push(entry);
+        report.status = "error";
+        onStep?.(entry);
+        return false;
+      }
+      const items: unknown[] = Array.isArray(over) ? over : Array.from({ length: times }, (_, n) => n);
+      for (let n = 0; n < items.length; n++) {
+        const loopScope = { ...scope, loop: { index: n, count: items.length }, [step.loop.as ?? "item"]: items[n] };
+        if (!(await runSteps(client, step.steps, `${index}[${n}].`, loopScope, script, report, onStep))) return false;
+      }
+      continue;
+    }
+
+    if ('steps' in step) {
+      const branch = truthy(interpolate(step.if, scope)) ? step.steps : (step.else ?? []);
+      if (!(await runSteps(client, branch, `${index}.`, scope, script, report, onStep))) return false;
+      continue;
+    }
+
+    const entry: StepReport = { index, id: step.id, action: step.action, status: "ok", duration_ms: 0 };
+    if ('if' in step && !truthy(interpolate(step.if, scope))) {
+      entry.status = "skipped";
+      report.steps.push(entry);
+      onStep?.(entry);
+      continue;
+    }
+
+    const defaults = isActionName(step.action) ? ACTION_DEFAULTS[step.action] : undefined;
+    const args: StepArgs = { ...defaults, ...interpolate(step.args ?? {}, scope) };
+    entry.args = args;
+    const started = Date.now();
+    const res = await runStep(client, step.action, args, step.timeout ?? script.timeout);
+    entry.duration_ms = Date.now() - started;
+
+    const { status, error, ...result } = res;
+    entry.status = status;
+    if (error !== undefined) entry.error = error;
+    const reported = withoutBinary(result);
+    if (Object.keys(reported).length) entry.result = reported;
+    if (step.id) (scope.steps as Record<string, unknown>)[step.id] = { status, ...result };
+
+    report.steps.push(entry);
+    onStep?.(entry);
+
+    if (status !== "ok") {
+      report.status = "error";
+      if (!step.continueOnError) return false;
+    }
+  }
+  return true;
+}
+
+// Raw image and file data (`*_base64` fields, in-memory artifact bytes) stays
+// out of the report; saved files are referenced by path
+function withoutBinary(result: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(result).filter(([key, value]) => !key.endsWith("_base64") && !Buffer.isBuffer(value)));
+}
+
+async function runStep(client: BrowserClient, action: string, args: StepArgs, timeout?: number): Promise<StepOutcome> {
+  // A timed-out step is withdrawn from the worker, not just left running
+  const opts: CallOptions = { throwOnError: false, timeout };
+  if (hasOwn(CLIENT_STEPS, action)) return outcome(await clientStep(action as ClientStep, client, args, opts));
+  if (!isActionName(action)) return { status: "error", error: `Unknown action: '${action}'` };
+  if (hasOwn(ASSERT_STEPS, action)) return assertStep(action as AssertionAction, client, args, opts);
+  return outcome(await client.perform(action, args as ActionArgs<typeof action>, opts));
+}
+
+// The script's arguments are only known at runtime; validation vouched for the names
+function clientStep<S extends ClientStep>(step: S, client: BrowserClient, args: StepArgs, opts: CallOptions): Promise<Result> {
+  return CLIENT_STEPS[step](client, args as ClientStepArgs[S], opts);
+}
+
+async function assertStep<A extends AssertionAction>(action: A, client: BrowserClient, args: StepArgs, opts: CallOptions): Promise<StepOutcome> {
+  try {
+    await ASSERT_STEPS[action](client, args as ActionArgs<A>, { ...opts, throwOnError: true });
+    return { status: "ok" };
+  } catch (e) {
+    if (!(e instanceof BrowserError) || e instanceof TaskCancelledError) throw e;
+    if (!(e instanceof AssertionFailedError)) return { status: "error", error: e.message };
+    return { status: "fail", error: e.message, ...(e.screenshot_path ? { screenshot_path: e.screenshot_path } : {}) };
+  }
+}
+
+function outcome(res: Result): StepOutcome {
+  return { ...res };
+}
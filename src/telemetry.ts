@@ -0,0 +1,124 @@
+import { ErrorContext } from './errors';
+
+// ---------------------------------------------------------
+// EVENTS
+// ---------------------------------------------------------
+
+export interface TaskEvent {
+  task_id: string;
+  action: string;
+  worker: string;
+  browser_id: string;
+}
+
+export interface TaskResultEvent extends TaskEvent {
+  status: string;
+  /** Milliseconds from pushing the task to receiving (or giving up on) its result. */
+  duration_ms: number;
+  error?: string;
+}
+
+export interface TaskTimeoutEvent extends TaskEvent {
+  duration_ms: number;
+  /** The timeout that expired, in seconds. */
+  timeout: number;
+}
+
+export interface AcquireEvent {
+  worker: string;
+  browser_id: string;
+  browser_type: string;
+  /** Milliseconds spent waiting for a free browser. */
+  duration_ms: number;
+}
+
+export interface ReleaseEvent {
+  worker: string;
+  browser_id: string;
+  status: string;
+  /** Milliseconds the session was held. */
+  duration_ms: number;
+  video_url?: string | null;
+  record_url?: string | null;
+}
+
+export interface ArtifactEvent extends ErrorContext {
+  /** Key the file was stored under. */
+  key: string;
+  /** Where the store put it (an absolute path for local files). */
+  path: string;
+  bytes: number;
+}
+
+/** Events emitted by `BrowserClient`, with their listener arguments. */
+export interface BrowserClientEvents {
+  acquire: [event: AcquireEvent];
+  "task:sent": [event: TaskEvent];
+  "task:result": [event: TaskResultEvent];
+  "task:timeout": [event: TaskTimeoutEvent];
+  release: [event: ReleaseEvent];
+  "artifact:saved": [event: ArtifactEvent];
+}
+
+// ---------------------------------------------------------
+// LOGGING
+// ---------------------------------------------------------
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Minimal structured logger. pino, winston and bunyan instances fit once
+ * wrapped to take `(message, fields)`.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const noop = () => {};
+
+/** Default logger: discards everything. */
+export const silentLogger: Logger = { debug: noop, info: noop, warn: noop, error: noop };
+
+/** Writes one JSON line per entry to stderr. Debug entries are dropped unless `debug` is set. */
+export function jsonLogger(options: { debug?: boolean } = {}): Logger {
+  const write = (level: string) => (message: string, fields: LogFields = {}) => {
+    process.stderr.write(JSON.stringify({ time: new Date().toISOString(), level, message, ...fields }) + "\n");
+  };
+  return {
+    debug: options.debug ? write("debug") : noop,
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error")
+  };
+}
+
+// ---------------------------------------------------------
+// TRACING
+// ---------------------------------------------------------
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+/** Status codes as defined by `@opentelemetry/api`'s `SpanStatusCode`. */
+export const SPAN_STATUS_OK = 1;
+export const SPAN_STATUS_ERROR = 2;
+
+/**
+ * The subset of an OpenTelemetry `Span` the client uses.
+ */
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry `Tracer` the client uses, so
+ * `trace.getTracer("isoautomate")` can be passed in without this package
+ * depending on `@opentelemetry/api`.
+ */
+export interface Tracer {
+  startSpan(name: string, options?: { attributes?: SpanAttributes }): Span;
+}
@@ -0,0 +1,220 @@
+import * as path from 'path';
+
+import { AcquireOptions, BrowserClient, BrowserClientOptions } from './client';
+import { ArtifactManifest } from './artifacts';
+import { ASSERTION_FOLDER } from './config';
+import { AssertionFailedError, BrowserError, SoftAssertionError } from './errors';
+
+// ---------------------------------------------------------
+// SOFT ASSERTIONS
+// ---------------------------------------------------------
+
+/**
+ * Collects assertion failures instead of stopping at the first one.
+ * `assertAll()` then raises them together as a `SoftAssertionError`.
+ *
+ *     await soft.check(browser.assert_text("Welcome"));
+ *     await soft.check(() => expect(count).toBe(3));
+ *     soft.assertAll();
+ *
+ * Failures other than assertions (timeouts, lost sessions, Redis errors)
+ * are not collected; they propagate immediately.
+ */
+export class SoftAssertions {
+  public readonly failures: Error[] = [];
+
+  /**
+   * Awaits an assertion (a promise, or a function that returns or throws)
+   * and records its failure. Resolves to whether it passed.
+   */
+  public async check(assertion: Promise<unknown> | (() => unknown)): Promise<boolean> {
+    try {
+      await (typeof assertion === 'function' ? assertion() : assertion);
+      return true;
+    } catch (e: any) {
+      if (e instanceof BrowserError && !(e instanceof AssertionFailedError)) throw e;
+      this.failures.push(e instanceof Error ? e : new Error(String(e)));
+      return false;
+    }
+  }
+
+  public get passed(): boolean {
+    return this.failures.length === 0;
+  }
+
+  /** Throws a `SoftAssertionError` listing every collected failure, if any. */
+  public assertAll(): void {
+    if (this.failures.length > 0) throw new SoftAssertionError([...this.failures]);
+  }
+}
+
+// ---------------------------------------------------------
+// TEST FIXTURE
+// ---------------------------------------------------------
+
+/** What `browserTest` gathers when a test fails. */
+export interface TestEvidence {
+  test: string;
+  error: string;
+  url?: string;
+  /** Locations as returned by the client's artifact store. */
+  screenshot?: string;
+  page_source?: string;
+  video_url?: string | null;
+  record_url?: string | null;
+  /** Screenshots of failed soft or hard assertions. */
+  assertion_screenshots: string[];
+  manifest?: ArtifactManifest | null;
+}
+
+export interface BrowserTestOptions extends BrowserClientOptions, AcquireOptions {
+  /** Capture a screenshot, page source and URL when the test fails (default: true). */
+  evidence?: boolean;
+  /** Receives the evidence of a failed test, e.g. to attach it to a custom reporter. */
+  onEvidence?: (evidence: TestEvidence) => void | Promise<void>;
+}
+
+/**
+ * The parts of a runner's per-test argument that `browserTest` reads:
+ * node:test's `TestContext` and Vitest's test context both fit. Jest
+ * passes none.
+ */
+export interface TestRunnerContext {
+  name?: string;
+  /** node:test */
+  diagnostic?: (message: string) => void;
+  /** Vitest */
+  task?: { name?: string; meta?: object };
+}
+
+export type BrowserTestFn<C> = (browser: BrowserClient, soft: SoftAssertions, context: C) => Promise<void>;
+
+// Jest exposes the running test through its global `expect`
+interface JestGlobals {
+  expect?: { getState?: () => { currentTestName?: string } };
+}
+
+/**
+ * Wraps a test body so it runs with a freshly acquired browser, released
+ * afterwards. On failure the screenshot, page source, current URL and
+ * video/record URLs are attached to the error (and, under `node:test`, to
+ * the report as diagnostics). Soft assertions are checked at the end.
+ *
+ *     // Jest / Vitest
+ *     test("checkout", browserTest(async (browser, soft) => { ... }));
+ *
+ *     // node:test
+ *     test("checkout", browserTest(async (browser, soft, t) => { ... }));
+ */
+export function browserTest<C extends TestRunnerContext = TestRunnerContext>(
+  fn: BrowserTestFn<C>,
+  options: BrowserTestOptions = {}
+): (...args: [context?: C]) => Promise<void> {
+  // Declared without parameters: Jest treats a one-argument test as callback-style
+  return async (...args: [context?: C]) => {
+    const context = args[0] as C;
+    const name = testName(context);
+    const browser = new BrowserClient(options);
+    const soft = new SoftAssertions();
+    let evidence: TestEvidence | null = null;
+
+    try {
+      await browser.acquire(options);
+      try {
+        await fn(browser, soft, context);
+        soft.assertAll();
+      } catch (e: any) {
+        if (options.evidence !== false) evidence = await collectEvidence(browser, name, e, soft);
+        throw e;
+      } finally {
+        if (browser.session) await browser.release({ throwOnError: false });
+      }
+    } catch (e: any) {
+      if (evidence) {
+        // URLs are only known once the session is released
+        evidence.video_url = browser.video_url;
+        evidence.record_url = browser.record_url;
+        evidence.manifest = browser.manifest();
+        await report(evidence, e, context, options);
+      }
+      throw e;
+    } finally {
+      await browser.close();
+    }
+  };
+}
+
+/**
+ * Captures what the browser looks like right now. Every step is best
+ * effort: a failed capture is left out instead of hiding the test error.
+ */
+export async function collectEvidence(browser: BrowserClient, test: string, error: unknown, soft?: SoftAssertions): Promise<TestEvidence> {
+  // Next to the assertion captures unless an artifact store re-keys it
+  const base = path.join(ASSERTION_FOLDER, safeName(test));
+  const quick = { throwOnError: false, timeout: 20 };
+  const failures = [error, ...(soft?.failures ?? [])];
+
+  const evidence: TestEvidence = {
+    test,
+    error: error instanceof Error ? error.message : String(error),
+    assertion_screenshots: failures
+      .map((f) => f instanceof AssertionFailedError ? f.screenshot_path : undefined)
+      .filter((p): p is string => !!p)
+  };
+
+  const url = await browser.get_current_url(quick).catch(() => null);
+  if (url?.status === "ok") evidence.url = url.url;
+
+  const shot = await browser.screenshot(`${base}.png`, undefined, quick).catch(() => null);
+  if (shot?.status === "ok") evidence.screenshot = shot.path;
+
+  const source = await browser.save_page_source(`${base}.html`, quick).catch(() => null);
+  if (source?.status === "ok" && "path" in source) evidence.page_source = source.path;
+
+  return evidence;
+}
+
+// Hands evidence to every channel the runner offers
+async function report(evidence: TestEvidence, error: unknown, context: TestRunnerContext | undefined, options: BrowserTestOptions): Promise<void> {
+  const lines = [
+    ["url", evidence.url],
+    ["screenshot", evidence.screenshot],
+    ["page source", evidence.page_source],
+    ["video", evidence.video_url],
+    ["recording", evidence.record_url],
+    ...evidence.assertion_screenshots.map((p) => ["assertion screenshot", p])
+  ].filter(([, value]) => value).map(([label, value]) => `  ${label}: ${value}`);
+
+  if (error instanceof Error) {
+    (error as Error & { evidence?: TestEvidence }).evidence = evidence;
+    if (lines.length > 0) error.message += `\n\nBrowser evidence:\n${lines.join("\n")}`;
+  }
+
+  // node:test
+  if (typeof context?.diagnostic === 'function') {
+    for (const line of lines) context.diagnostic(line.trim());
+  }
+  // Vitest keeps task.meta in its JSON and custom reporters
+  if (context?.task?.meta && typeof context.task.meta === 'object') {
+    (context.task.meta as { isoautomate?: TestEvidence }).isoautomate = evidence;
+  }
+
+  try {
+    await options.onEvidence?.(evidence);
+  } catch (e) {
+    // A broken reporter must not replace the test failure
+  }
+}
+
+// The current test's name under node:test, Vitest or Jest
+function testName(context: TestRunnerContext | undefined): string {
+  if (typeof context?.name === 'string') return context.name;
+  if (typeof context?.task?.name === 'string') return context.task.name;
+  const jestName = (globalThis as JestGlobals).expect?.getState?.().currentTestName;
+  return typeof jestName === 'string' ? jestName : "test";
+}
+
+function safeName(name: string): string {
+  const timestamp = new Date().toISOString().replace(/[-:.]/g, "").replace("T", "_").substring(0, 15);
+  return `FAIL_${name.replace(/[^\w-]+/g, "_").substring(0, 60)}_${timestamp}`;
+}
@@ -0,0 +1,206 @@
+import { Redis as RedisClient } from 'ioredis';
+
+import { CANCEL_PREFIX, LEASE_PREFIX, REDIS_PREFIX, WORKERS_SET } from './config';
+import { Result, TaskPayload } from './actions';
+import { BrowserRef, FleetInspector } from './fleet';
+import { ResultRouter } from './router';
+import { withRedisRetry } from './utils';
+
+// How long a cancellation marker stays visible to workers
+const CANCEL_TTL_SECONDS = 300;
+
+export interface LeaseOptions {
+  /** Seconds the lease lives without renewal. */
+  ttl: number;
+  /** Stored as the lease value, to see who holds a browser. */
+  owner: string;
+}
+
+/**
+ * Everything `BrowserClient` needs from the outside world: claiming
+ * browsers, keeping their leases, and moving tasks to a worker and results
+ * back. `RedisTransport` talks to a real fleet; `MockTransport`,
+ * `RecordingTransport` and `ReplayTransport` make clients testable offline.
+ *
+ * Implementations throw plain errors; the client maps them onto
+ * `BrowserError` subclasses (errors that already are one pass through).
+ */
+export interface Transport {
+  /** Names of every registered worker. */
+  listWorkers(): Promise<string[]>;
+  /** Metadata labels of each worker, in the same order. */
+  workerLabels(workers: string[]): Promise<Record<string, string>[]>;
+  /**
+   * Atomically claims a free browser and starts its lease. `candidates` is
+   * the ordered list of workers to try; null means any worker, in random order.
+   */
+  claim(browserType: string, candidates: string[] | null, lease: LeaseOptions): Promise<BrowserRef | null>;
+  /**
+   * Takes over a browser another client claimed, restarting its lease.
+   * False when it is no longer in its `:busy` set (released or reclaimed).
+   */
+  adopt(browser: BrowserRef, lease: LeaseOptions): Promise<boolean>;
+  /** Extends the lease, or restores it if it lapsed while the browser is still busy. */
+  renewLease(browser: BrowserRef, lease: LeaseOptions): Promise<void>;
+  endLease(browser: BrowserRef): Promise<void>;
+  /** Queues tasks for a worker, in order, in one step. */
+  push(worker: string, payloads: TaskPayload[]): Promise<void>;
+  /** Resolves with the task's result, or null once `timeout` seconds pass (`0`: never). Rejects when `signal` aborts. */
+  result(payload: TaskPayload, timeout: number, signal?: AbortSignal): Promise<Result | null>;
+  /** Takes queued tasks back; true for each one the worker had not picked up yet. */
+  withdraw(worker: string, payloads: TaskPayload[]): Promise<boolean[]>;
+  /** Tells the worker a task it already picked up is no longer wanted. */
+  cancel(payload: TaskPayload): Promise<void>;
+  /** Returns busy browsers without a live lease to their free set. */
+  reclaim(options: { dryRun?: boolean }): Promise<BrowserRef[]>;
+  close(): Promise<void>;
+}
+
+/**
+ * The isoAutomate wire protocol over Redis: `:free`/`:busy` sets, per-worker
+ * task lists, `result:<task_id>` keys, leases and cancel markers.
+ */
+export class RedisTransport implements Transport {
+  /**
+   * @param owned Whether `close()` also closes the connection.
+   */
+  constructor(public readonly redis: RedisClient, private owned: boolean = false) {}
+
+  public async listWorkers(): Promise<string[]> {
+    return this.redis.smembers(WORKERS_SET);
+  }
+
+  public async workerLabels(workers: string[]): Promise<Record<string, string>[]> {
+    if (workers.length === 0) return [];
+    const pipeline = this.redis.pipeline();
+    for (const worker of workers) pipeline.hgetall(`${REDIS_PREFIX}${worker}:meta`);
+    const metas = (await pipeline.exec()) ?? [];
+    return workers.map((_, i) => (metas[i]?.[1] ?? {}) as Record<string, string>);
+  }
+
+  public async claim(browserType: string, candidates: string[] | null, lease: LeaseOptions): Promise<BrowserRef | null> {
+    // LUA SCRIPT
+    // ARGV[3]/ARGV[4] are the lease TTL and owner. ARGV[5..] is an ordered
+    // candidate list; without one, every registered worker is tried in
+    // random order.
+    const luaScript = `
+      local workers = {}
+      if #ARGV > 4 then
+          for i = 5, #ARGV do
+              if redis.call('SISMEMBER', KEYS[1], ARGV[i]) == 1 then
+                  table.insert(workers, ARGV[i])
+              end
+          end
+      else
+          workers = redis.call('SMEMBERS', KEYS[1])
+          for i = #workers, 2, -1 do
+              local j = math.random(i)
+              workers[i], workers[j] = workers[j], workers[i]
+          end
+      end
+
+      for _, worker in ipairs(workers) do
+          local free_key = ARGV[1] .. worker .. ':' .. ARGV[2] .. ':free'
+          local bid = redis.call('SPOP', free_key)
+          if bid then
+              local busy_key = ARGV[1] .. worker .. ':' .. ARGV[2] .. ':busy'
+              redis.call('SADD', busy_key, bid)
+              local lease_key = ARGV[1] .. 'lease:' .. worker .. ':' .. ARGV[2] .. ':' .. bid
+              redis.call('SET', lease_key, ARGV[4], 'EX', tonumber(ARGV[3]))
+              return {worker, bid}
+          end
+      end
+      return nil
+    `;
+
+    const result = await this.redis.eval(luaScript, 1, WORKERS_SET, REDIS_PREFIX, browserType, lease.ttl, lease.owner, ...(candidates ?? []));
+    if (!result) return null;
+    const [worker, browser_id] = result as [string, string];
+    return { worker, browser_type: browserType, browser_id };
+  }
+
+  public async adopt(browser: BrowserRef, lease: LeaseOptions): Promise<boolean> {
+    return this._leaseIfBusy(browser, lease);
+  }
+
+  public async renewLease(browser: BrowserRef, lease: LeaseOptions): Promise<void> {
+    await this._leaseIfBusy(browser, lease);
+  }
+
+  public async endLease(browser: BrowserRef): Promise<void> {
+    await this.redis.del(leaseKey(browser));
+  }
+
+  public async push(worker: string, payloads: TaskPayload[]): Promise<void> {
+    await withRedisRetry(() => this.redis.rpush(`${REDIS_PREFIX}${worker}:tasks`, ...payloads.map((p) => JSON.stringify(p))));
+  }
+
+  public async result(payload: TaskPayload, timeout: number, signal?: AbortSignal): Promise<Result | null> {
+    // Blocking Pop
+    const resp = await ResultRouter.for(this.redis).wait(payload.result_key, timeout, signal);
+    return resp ? JSON.parse(resp) : null;
+  }
+
+  // LREM each payload; true where it was still queued (and is now removed)
+  public async withdraw(worker: string, payloads: TaskPayload[]): Promise<boolean[]> {
+    if (payloads.length === 0) return [];
+    const pipeline = this.redis.pipeline();
+    for (const payload of payloads) pipeline.lrem(`${REDIS_PREFIX}${worker}:tasks`, 1, JSON.stringify(payload));
+    const replies = (await pipeline.exec()) ?? [];
+    return replies.map(([err, removed]) => !err && Number(removed) > 0);
+  }
+
+  // Flags the task at `<prefix>cancel:<task_id>` and drops any result that already landed
+  public async cancel(payload: TaskPayload): Promise<void> {
+    const pipeline = this.redis.pipeline();
+    pipeline.set(`${CANCEL_PREFIX}${payload.task_id}`, "1", "EX", CANCEL_TTL_SECONDS);
+    pipeline.del(payload.result_key);
+    await pipeline.exec();
+  }
+
+  public async reclaim(options: { dryRun?: boolean } = {}): Promise<BrowserRef[]> {
+    // Re-checked atomically so a browser is never freed while its lease exists
+    const luaScript = `
+      if redis.call('EXISTS', KEYS[3]) == 1 then return 0 end
+      if redis.call('SREM', KEYS[1], ARGV[1]) == 0 then return 0 end
+      redis.call('SADD', KEYS[2], ARGV[1])
+      return 1
+    `;
+
+    const stale = await new FleetInspector({ redis: this.redis }).staleBrowsers();
+    if (options.dryRun) return stale;
+
+    const reclaimed: BrowserRef[] = [];
+    for (const browser of stale) {
+      const { worker, browser_type, browser_id } = browser;
+      const busyKey = `${REDIS_PREFIX}${worker}:${browser_type}:busy`;
+      const freeKey = `${REDIS_PREFIX}${worker}:${browser_type}:free`;
+      const moved = await this.redis.eval(luaScript, 3, busyKey, freeKey, leaseKey(browser), browser_id);
+      if (moved === 1) reclaimed.push(browser);
+    }
+    return reclaimed;
+  }
+
+  // Sets (not just extends) the lease while the browser is busy, so one that
+  // lapsed during an outage comes back; checked atomically against reclaim
+  private async _leaseIfBusy(browser: BrowserRef, lease: LeaseOptions): Promise<boolean> {
+    const luaScript = `
+      if redis.call('SISMEMBER', KEYS[1], ARGV[1]) == 0 then return 0 end
+      redis.call('SET', KEYS[2], ARGV[3], 'EX', tonumber(ARGV[2]))
+      return 1
+    `;
+    const busyKey = `${REDIS_PREFIX}${browser.worker}:${browser.browser_type}:busy`;
+    const leased = await this.redis.eval(luaScript, 2, busyKey, leaseKey(browser), browser.browser_id, lease.ttl, lease.owner);
+    return leased === 1;
+  }
+
+  public async close(): Promise<void> {
+    if (!this.owned) return;
+    ResultRouter.for(this.redis).close();
+    await this.redis.quit();
+  }
+}
+
+function leaseKey({ worker, browser_type, browser_id }: BrowserRef): string {
+  return `${LEASE_PREFIX}${worker}:${browser_type}:${browser_id}`;
+}
@@ -42,4 +42,19 @@ export async function withRedisRetry<T>(
       }
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Collects every key matching `pattern` using SCAN (never KEYS, which
+ * blocks the server on large databases).
+ */
+export async function scanKeys(r: Redis, pattern: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor = "0";
+  do {
+    const [next, batch] = await r.scan(cursor, "MATCH", pattern, "COUNT", 100);
+    cursor = next;
+    keys.push(...batch);
+  } while (cursor !== "0");
+  return keys;
+}
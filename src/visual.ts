@@ -0,0 +1,365 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+import { Rect } from './actions';
+import { ArtifactWriter } from './artifacts';
+import { BrowserClient, CallOptions } from './client';
+import { SCREENSHOT_FOLDER } from './config';
+import { BrowserError, VisualMismatchError } from './errors';
+
+/** Decoded 8-bit RGBA pixels, row by row. */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export interface ImageDiff {
+  /** Pixels that differ by more than the threshold (masked pixels never do). */
+  diffPixels: number;
+  /** `diffPixels` over all pixels. */
+  diffRatio: number;
+  /** Unchanged pixels faded, differing ones red, masked ones yellow. */
+  diff: RgbaImage;
+}
+
+// ---------------------------------------------------------
+// PNG CODEC
+// ---------------------------------------------------------
+// Enough of PNG for browser screenshots: 8-bit greyscale, RGB, palette and
+// RGBA images without interlacing. Encoding always writes 8-bit RGBA.
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+export function decodePng(png: Buffer): RgbaImage {
+  if (png.length < 8 || !png.subarray(0, 8).equals(PNG_SIGNATURE)) throw new Error("Not a PNG image");
+
+  let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset < png.length;) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('ascii', offset + 4, offset + 8);
+    const chunk = png.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlace = chunk[12];
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (bitDepth !== 8 || !channels) throw new Error(`Unsupported PNG: bit depth ${bitDepth}, color type ${colorType}`);
+  if (interlace) throw new Error("Unsupported PNG: interlaced");
+  if (colorType === 3 && !palette) throw new Error("Invalid PNG: palette image without PLTE");
+
+  const raw = unfilter(zlib.inflateSync(Buffer.concat(idat)), width, height, channels);
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0, p = 0; i < width * height; i++, p += channels) {
+    const o = i * 4;
+    switch (colorType) {
+      case 0: data[o] = data[o + 1] = data[o + 2] = raw[p]; data[o + 3] = 255; break;
+      case 4: data[o] = data[o + 1] = data[o + 2] = raw[p]; data[o + 3] = raw[p + 1]; break;
+      case 2: data[o] = raw[p]; data[o + 1] = raw[p + 1]; data[o + 2] = raw[p + 2]; data[o + 3] = 255; break;
+      case 6: raw.copy(data, o, p, p + 4); break;
+      case 3: {
+        const index = raw[p];
+        palette!.copy(data, o, index * 3, index * 3 + 3);
+        data[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+export function encodePng(image: RgbaImage): Buffer {
+  const stride = image.width * 4;
+  const raw = Buffer.alloc((stride + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    // Filter type 0 (none) for every row
+    image.data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", zlib.deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0))
+  ]);
+}
+
+function unfilter(data: Buffer, width: number, height: number, bpp: number): Buffer {
+  const stride = width * bpp;
+  const out = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const line = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? out[row + x - bpp] : 0;
+      const b = y > 0 ? out[prev + x] : 0;
+      const c = x >= bpp && y > 0 ? out[prev + x - bpp] : 0;
+      let predictor = 0;
+      switch (filter) {
+        case 0: predictor = 0; break;
+        case 1: predictor = a; break;
+        case 2: predictor = b; break;
+        case 3: predictor = (a + b) >> 1; break;
+        case 4: predictor = paeth(a, b, c); break;
+        default: throw new Error(`Invalid PNG: unknown filter ${filter}`);
+      }
+      out[row + x] = (data[line + x] + predictor) & 0xff;
+    }
+  }
+  return out;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a), pb = Math.abs(p - b), pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, 'ascii');
+  let crc = 0xffffffff;
+  for (const byte of Buffer.concat([head.subarray(4), data])) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  const tail = Buffer.alloc(4);
+  tail.writeUInt32BE((crc ^ 0xffffffff) >>> 0, 0);
+  return Buffer.concat([head, data, tail]);
+}
+
+// ---------------------------------------------------------
+// COMPARISON
+// ---------------------------------------------------------
+
+// Largest possible YIQ distance between two colors
+const MAX_YIQ_DELTA = 35215;
+
+/** Paints `rects` (in image pixels) solid magenta, so both sides match there. */
+export function maskImage(image: RgbaImage, rects: Rect[]): void {
+  for (const rect of rects) {
+    const x0 = Math.max(0, Math.floor(rect.x)), y0 = Math.max(0, Math.floor(rect.y));
+    const x1 = Math.min(image.width, Math.ceil(rect.x + rect.width)), y1 = Math.min(image.height, Math.ceil(rect.y + rect.height));
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        const o = (y * image.width + x) * 4;
+        image.data[o] = 255; image.data[o + 1] = 0; image.data[o + 2] = 255; image.data[o + 3] = 255;
+      }
+    }
+  }
+}
+
+/**
+ * Pixel-by-pixel comparison of two equally sized images. `threshold` (0..1)
+ * is the per-pixel color tolerance in perceptual (YIQ) space, as in
+ * pixelmatch; anti-aliasing usually stays below 0.1.
+ */
+export function diffImages(expected: RgbaImage, actual: RgbaImage, threshold: number = 0.1, masks: Rect[] = []): ImageDiff {
+  if (expected.width !== actual.width || expected.height !== actual.height) {
+    throw new Error(`Image sizes differ: ${expected.width}x${expected.height} vs ${actual.width}x${actual.height}`);
+  }
+  const { width, height } = expected;
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+  const masked = new Uint8Array(width * height);
+  for (const rect of masks) {
+    for (let y = Math.max(0, Math.floor(rect.y)); y < Math.min(height, Math.ceil(rect.y + rect.height)); y++) {
+      for (let x = Math.max(0, Math.floor(rect.x)); x < Math.min(width, Math.ceil(rect.x + rect.width)); x++) masked[y * width + x] = 1;
+    }
+  }
+
+  const diff = Buffer.alloc(width * height * 4);
+  let diffPixels = 0;
+  for (let i = 0; i < width * height; i++) {
+    const o = i * 4;
+    if (masked[i]) {
+      diff[o] = 255; diff[o + 1] = 220; diff[o + 2] = 0; diff[o + 3] = 255;
+    } else if (colorDelta(expected.data, actual.data, o) > maxDelta) {
+      diffPixels++;
+      diff[o] = 255; diff[o + 1] = 0; diff[o + 2] = 0; diff[o + 3] = 255;
+    } else {
+      // Faded greyscale of the expected image, for context
+      const [r, g, b] = blendWhite(expected.data, o);
+      const grey = 255 - 0.1 * (255 - (0.299 * r + 0.587 * g + 0.114 * b));
+      diff[o] = diff[o + 1] = diff[o + 2] = grey; diff[o + 3] = 255;
+    }
+  }
+  return { diffPixels, diffRatio: width * height ? diffPixels / (width * height) : 0, diff: { width, height, data: diff } };
+}
+
+function colorDelta(a: Buffer, b: Buffer, o: number): number {
+  if (a[o] === b[o] && a[o + 1] === b[o + 1] && a[o + 2] === b[o + 2] && a[o + 3] === b[o + 3]) return 0;
+  const [r1, g1, b1] = blendWhite(a, o);
+  const [r2, g2, b2] = blendWhite(b, o);
+  const y = rgb2y(r1, g1, b1) - rgb2y(r2, g2, b2);
+  const i = rgb2i(r1, g1, b1) - rgb2i(r2, g2, b2);
+  const q = rgb2q(r1, g1, b1) - rgb2q(r2, g2, b2);
+  return 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+}
+
+function blendWhite(data: Buffer, o: number): [number, number, number] {
+  const alpha = data[o + 3] / 255;
+  return [255 + (data[o] - 255) * alpha, 255 + (data[o + 1] - 255) * alpha, 255 + (data[o + 2] - 255) * alpha];
+}
+
+function rgb2y(r: number, g: number, b: number): number { return r * 0.29889531 + g * 0.58662247 + b * 0.11448223; }
+function rgb2i(r: number, g: number, b: number): number { return r * 0.59597799 - g * 0.2741761 - b * 0.32180189; }
+function rgb2q(r: number, g: number, b: number): number { return r * 0.21147017 - g * 0.52261711 + b * 0.31114694; }
+
+// ---------------------------------------------------------
+// SCREENSHOT EXPECTATIONS
+// ---------------------------------------------------------
+
+export interface ExpectScreenshotOptions extends CallOptions {
+  /** Capture just this element instead of the viewport. */
+  selector?: string;
+  /** Per-pixel color tolerance, 0..1 (default 0.1). */
+  threshold?: number;
+  /** Differing pixels allowed. Without this or `maxDiffRatio`, none are. */
+  maxDiffPixels?: number;
+  /** Share of differing pixels allowed, 0..1. */
+  maxDiffRatio?: number;
+  /** Selectors of dynamic regions (clocks, ads, avatars) to ignore. */
+  mask?: string[];
+  /** Where baselines live (default: `ISOAUTOMATE_BASELINE_DIR`, then `baselines`). */
+  baselineDir?: string;
+  /** Overwrite the baseline with this capture (default: `ISOAUTOMATE_UPDATE_BASELINES=1`). */
+  update?: boolean;
+}
+
+export interface ScreenshotComparison {
+  baseline: string;
+  /** The baseline was written by this call (missing before, or update mode). */
+  updated: boolean;
+  diffPixels: number;
+  diffRatio: number;
+}
+
+/**
+ * Compares a capture against `<baselineDir>/<name>.png`. Backs
+ * `BrowserClient.expectScreenshot()`.
+ */
+export async function expectScreenshot(
+  browser: BrowserClient,
+  writeArtifact: ArtifactWriter,
+  name: string,
+  options: ExpectScreenshotOptions = {}
+): Promise<ScreenshotComparison> {
+  const { selector, threshold = 0.1, maxDiffPixels, maxDiffRatio, mask = [], baselineDir, update, ...opts } = options;
+  const call: CallOptions = { ...opts, throwOnError: true };
+  const file = name.endsWith(".png") ? name : `${name}.png`;
+  const baseline = path.resolve(baselineDir ?? process.env.ISOAUTOMATE_BASELINE_DIR ?? "baselines", file);
+  const context = { action: "expectScreenshot", worker: browser.session?.worker, browser_id: browser.session?.browser_id };
+
+  const shot = await browser.perform("save_screenshot", { name: "temp.png", selector }, call);
+  if (shot.status !== "ok" || !shot.image_base64) throw new BrowserError("Worker returned no screenshot", context);
+  const actual = decodePng(Buffer.from(shot.image_base64, 'base64'));
+  const masks = mask.length > 0 ? await maskRects(browser, mask, selector, actual, call) : [];
+  maskImage(actual, masks);
+
+  if (update ?? process.env.ISOAUTOMATE_UPDATE_BASELINES === "1") {
+    await writeBaseline(baseline, actual);
+    return { baseline, updated: true, diffPixels: 0, diffRatio: 0 };
+  }
+  if (!fs.existsSync(baseline)) {
+    // First run: the capture becomes the baseline
+    await writeBaseline(baseline, actual);
+    return { baseline, updated: true, diffPixels: 0, diffRatio: 0 };
+  }
+
+  const expected = decodePng(await fs.promises.readFile(baseline));
+  const stem = path.join(SCREENSHOT_FOLDER, "visual", path.basename(file, ".png"));
+  if (expected.width !== actual.width || expected.height !== actual.height) {
+    const stored = await writeArtifact(`${stem}-actual.png`, encodePng(actual), "expectScreenshot");
+    throw new VisualMismatchError(
+      `Screenshot '${name}' is ${actual.width}x${actual.height}, baseline is ${expected.width}x${expected.height}`,
+      context,
+      { diff_pixels: actual.width * actual.height, diff_ratio: 1, baseline_path: baseline, actual_path: stored.location }
+    );
+  }
+
+  const { diffPixels, diffRatio, diff } = diffImages(expected, actual, threshold, masks);
+  const limited = maxDiffPixels !== undefined || maxDiffRatio !== undefined;
+  const failed = limited
+    ? (maxDiffPixels !== undefined && diffPixels > maxDiffPixels) || (maxDiffRatio !== undefined && diffRatio > maxDiffRatio)
+    : diffPixels > 0;
+  if (!failed) return { baseline, updated: false, diffPixels, diffRatio };
+
+  const actualStored = await writeArtifact(`${stem}-actual.png`, encodePng(actual), "expectScreenshot");
+  const expectedStored = await writeArtifact(`${stem}-expected.png`, encodePng(expected), "expectScreenshot");
+  const diffStored = await writeArtifact(`${stem}-diff.png`, encodePng(diff), "expectScreenshot");
+  throw new VisualMismatchError(
+    `Screenshot '${name}' differs from its baseline in ${diffPixels} pixels (${(diffRatio * 100).toFixed(2)}%)`,
+    context,
+    { diff_pixels: diffPixels, diff_ratio: diffRatio, baseline_path: baseline, expected_path: expectedStored.location, actual_path: actualStored.location, diff_path: diffStored.location }
+  );
+}
+
+// Element rects are page coordinates in CSS pixels; the capture starts at
+// the scroll position (or the captured element) and is in device pixels
+async function maskRects(browser: BrowserClient, selectors: string[], selector: string | undefined, image: RgbaImage, call: CallOptions): Promise<Rect[]> {
+  const view = await browser.evaluate("JSON.stringify([window.scrollX, window.scrollY, window.innerWidth])", call);
+  const [scrollX, scrollY, innerWidth] = JSON.parse(view.status === "ok" && typeof view.result === 'string' ? view.result : "[0,0,0]") as number[];
+
+  let origin = { x: scrollX, y: scrollY };
+  let scale = innerWidth > 0 ? image.width / innerWidth : 1;
+  if (selector) {
+    const target = await browser.get_element_rect(selector, call);
+    if (target.status === "ok") {
+      origin = { x: target.rect.x, y: target.rect.y };
+      if (target.rect.width > 0) scale = image.width / target.rect.width;
+    }
+  }
+
+  const rects: Rect[] = [];
+  for (const mask of selectors) {
+    // A mask that matches nothing has nothing to hide
+    const res = await browser.get_element_rect(mask, { ...call, throwOnError: false });
+    if (res.status !== "ok") continue;
+    const { x, y, width, height } = res.rect;
+    rects.push({ x: (x - origin.x) * scale, y: (y - origin.y) * scale, width: width * scale, height: height * scale });
+  }
+  return rects;
+}
+
+async function writeBaseline(file: string, image: RgbaImage): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, encodePng(image));
+}
@@ -0,0 +1,62 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const { main } = require('../dist/cli');
+
+// Runs the CLI with stdout and stderr captured
+async function cli(t, ...argv) {
+  const out = { stdout: "", stderr: "" };
+  t.mock.method(process.stdout, "write", (chunk) => (out.stdout += chunk, true));
+  t.mock.method(process.stderr, "write", (chunk) => (out.stderr += chunk, true));
+  try {
+    out.code = await main(argv);
+  } finally {
+    t.mock.restoreAll();
+  }
+  return out;
+}
+
+test("help and usage errors", async (t) => {
+  const help = await cli(t, "--help");
+  assert.equal(help.code, 0);
+  assert.match(help.stdout, /^Usage: isoautomate/);
+
+  assert.equal((await cli(t)).code, 2);
+  const unknownOption = await cli(t, "workers", "--colour");
+  assert.equal(unknownOption.code, 2);
+  assert.match(unknownOption.stderr, /--colour/);
+
+  const unknownCommand = await cli(t, "deploy");
+  assert.equal(unknownCommand.code, 2);
+  assert.match(unknownCommand.stderr, /Unknown command: 'deploy'/);
+});
+
+test("--wait must be a non-negative number of seconds", async (t) => {
+  for (const wait of ["abc", "", "-1", "Infinity"]) {
+    const res = await cli(t, "screenshot", "https://example.com", `--wait=${wait}`);
+    assert.equal(res.code, 2, `--wait '${wait}'`);
+    assert.match(res.stderr, /Invalid --wait/);
+    assert.equal(res.stdout, "");
+  }
+});
+
+test("command errors are printed as a JSON error with exit code 1", async (t) => {
+  const missing = await cli(t, "screenshot");
+  assert.equal(missing.code, 1);
+  assert.deepEqual(JSON.parse(missing.stdout), { status: "error", error: "Missing <url> for 'screenshot'", type: "Error" });
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cli-"));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const script = path.join(dir, "bad.yaml");
+  fs.writeFileSync(script, "- action: fly_to_moon\n");
+
+  // The script is rejected before any connection is made
+  const invalid = await cli(t, "run", script);
+  assert.equal(invalid.code, 1);
+  const report = JSON.parse(invalid.stdout);
+  assert.equal(report.type, "ScriptValidationError");
+  assert.deepEqual(report.problems, ["Step 1: unknown action 'fly_to_moon'"]);
+});
@@ -0,0 +1,115 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const {
+  BrowserClient,
+  BrowserError,
+  ElementNotFoundError,
+  MemoryArtifactStore,
+  MockTransport,
+  AssertionFailedError,
+  NoBrowsersAvailableError,
+  TaskCancelledError
+} = require('../dist');
+
+async function acquired(mock, options = {}, acquire = {}) {
+  const browser = new BrowserClient({ transport: mock, ...options });
+  await browser.acquire(acquire);
+  return browser;
+}
+
+test("returns error envelopes by default and throws typed errors in throwing mode", async () => {
+  const mock = new MockTransport();
+  mock.respond("click", { status: "error", error: "Element not found: #buy" });
+
+  const lenient = await acquired(mock);
+  assert.deepEqual(await lenient.click("#buy"), { status: "error", error: "Element not found: #buy" });
+
+  const strict = await acquired(mock, { throwOnError: true });
+  await assert.rejects(strict.click("#buy"), (e) => e instanceof ElementNotFoundError && e.worker === "mock-worker");
+  // Per-call override wins over the client setting
+  assert.equal((await strict.click("#buy", undefined, { throwOnError: false })).status, "error");
+});
+
+test("failed assertions always throw and keep the failure screenshot", async () => {
+  const mock = new MockTransport();
+  mock.respond("assert_text", { status: "fail", error: "Text not found", screenshot_base64: Buffer.from("png").toString("base64") });
+  const store = new MemoryArtifactStore();
+  const browser = await acquired(mock, { artifactStore: store });
+
+  await assert.rejects(browser.assert_text("Welcome"), (e) => {
+    assert.ok(e instanceof AssertionFailedError);
+    assert.match(e.screenshot_path, /^memory:\/\/.*FAIL_assert_text_html_.*\.png$/);
+    return true;
+  });
+  assert.equal(store.keys().length, 1);
+});
+
+test("batch with stopOnFailure withdraws the actions after the first failure", async () => {
+  const mock = new MockTransport();
+  mock.respond("click", { status: "error", error: "Element not found: #x" });
+  const browser = await acquired(mock);
+
+  const results = await browser.batch()
+    .add("get_title")
+    .add("click", { selector: "#x" })
+    .add("get_current_url")
+    .run({ stopOnFailure: true });
+
+  assert.deepEqual(results.map((r) => r.status), ["ok", "error", "error"]);
+  assert.match(results[2].error, /Skipped/);
+  assert.deepEqual(mock.calls.map((c) => c.action), ["get_title", "click"]);
+});
+
+test("an aborted signal cancels before sending and abandons the rest of a batch", async () => {
+  const mock = new MockTransport();
+  const browser = await acquired(mock);
+
+  const aborted = new AbortController();
+  aborted.abort();
+  await assert.rejects(browser.get_title({ signal: aborted.signal }), TaskCancelledError);
+  assert.equal(mock.calls.length, 0);
+
+  const controller = new AbortController();
+  mock.respond("click", () => {
+    controller.abort();
+    return { status: "ok" };
+  });
+  const batch = browser.batch().add("click", { selector: "a" }).add("get_title").add("get_current_url");
+  await assert.rejects(batch.run({ signal: controller.signal }), TaskCancelledError);
+  assert.deepEqual(mock.calls.map((c) => c.action), ["click"]);
+});
+
+test("release still frees the browser when stop_video fails", async () => {
+  const mock = new MockTransport({ workers: { w1: { browsers: { chrome: 1 } } } });
+  mock.respond("stop_video", { status: "error", error: "encoder crashed" });
+  const browser = await acquired(mock, { throwOnError: true }, { video: true });
+
+  await assert.rejects(browser.release(), /encoder crashed/);
+  assert.deepEqual(mock.calls.map((c) => c.action), ["get_title", "stop_video", "release_browser"]);
+  assert.equal(browser.session, null);
+
+  // The only browser is free again
+  const next = await acquired(mock);
+  assert.equal(next.session.browser_id, "chrome-1");
+});
+
+test("acquire releases the browser when session initialization fails", async () => {
+  const mock = new MockTransport({ workers: { w1: { browsers: { chrome: 1 } } } });
+  mock.respond("get_title", { status: "error", error: "profile could not be loaded" });
+  const browser = new BrowserClient({ transport: mock, throwOnError: true });
+
+  await assert.rejects(browser.acquire({ video: true }), /profile could not be loaded/);
+  assert.ok(mock.calls.some((c) => c.action === "release_browser"));
+  assert.equal(browser.session, null);
+
+  const next = await acquired(mock);
+  assert.equal(next.session.browser_id, "chrome-1");
+});
+
+test("acquire rejects an invalid wait instead of waiting forever", async () => {
+  const mock = new MockTransport({ workers: { w1: { browsers: { chrome: 0 } } } });
+  const browser = new BrowserClient({ transport: mock });
+  await assert.rejects(browser.acquire({ wait: NaN }), (e) => e instanceof BrowserError && /Invalid 'wait'/.test(e.message));
+  await assert.rejects(browser.acquire({ wait: 0 }), NoBrowsersAvailableError);
+});
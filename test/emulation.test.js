@@ -0,0 +1,46 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { BrowserClient, DEVICES, MockTransport, mergeEmulation } = require('../dist');
+
+const CHROME_UA = "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36";
+
+// The CDP commands sent, as [cmd, params]
+function cdp(mock) {
+  return mock.calls.filter((c) => c.action === "execute_cdp_cmd").map((c) => [c.args.cmd, c.args.params]);
+}
+
+test("later calls merge with the emulation in effect", () => {
+  const merged = mergeEmulation({ device: "iPhone 15", locale: "de-DE" }, { colorScheme: "dark" });
+  assert.deepEqual(merged, { device: "iPhone 15", locale: "de-DE", colorScheme: "dark" });
+});
+
+test("a new device drops the previous device's overrides", () => {
+  const merged = mergeEmulation({ device: "iPhone 15", hasTouch: false, userAgent: "Custom/1.0", locale: "de-DE" }, { device: "Laptop" });
+  assert.deepEqual(merged, { device: "Laptop", locale: "de-DE" });
+});
+
+test("switching from a phone to a laptop restores the browser's own user agent", async () => {
+  const mock = new MockTransport();
+  mock.respond("execute_cdp_cmd", (args) => args.cmd === "Browser.getVersion"
+    ? { status: "ok", result: { userAgent: CHROME_UA } }
+    : { status: "ok", result: {} });
+  const browser = new BrowserClient({ transport: mock });
+  await browser.acquire({ emulation: { device: "iPhone 15" } });
+  assert.ok(cdp(mock).some(([cmd, params]) => cmd === "Emulation.setUserAgentOverride" && params.userAgent === DEVICES["iPhone 15"].userAgent));
+
+  mock.calls.length = 0;
+  await browser.emulate({ device: "Laptop" });
+  assert.deepEqual(cdp(mock), [
+    ["Browser.getVersion", {}],
+    ["Emulation.setDeviceMetricsOverride", { width: 1366, height: 768, deviceScaleFactor: 1, mobile: false }],
+    ["Emulation.setTouchEmulationEnabled", { enabled: false }],
+    ["Emulation.setUserAgentOverride", { userAgent: CHROME_UA }]
+  ]);
+  assert.deepEqual(browser.emulation, { device: "Laptop" });
+
+  // Nothing left to undo the next time
+  mock.calls.length = 0;
+  await browser.emulate({ device: "Desktop 1080p" });
+  assert.ok(!cdp(mock).some(([cmd]) => cmd === "Browser.getVersion" || cmd === "Emulation.setUserAgentOverride"));
+});
@@ -0,0 +1,66 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { BrowserClient, BrowserError, MemoryArtifactStore, MockTransport } = require('../dist');
+
+// Each evaluate answers with the next page of the page script's JSON
+function pages(mock, ...list) {
+  for (const page of list) mock.respondOnce("evaluate", { status: "ok", result: JSON.stringify(page) });
+}
+
+async function acquired(mock, options = {}) {
+  const browser = new BrowserClient({ transport: mock, ...options });
+  await browser.acquire();
+  return browser;
+}
+
+test("follows the next control, accumulating lists and keeping first-page values", async () => {
+  const mock = new MockTransport();
+  pages(mock,
+    { data: { heading: "Shoes", items: [{ name: "A" }] }, hasNext: true },
+    { data: { heading: "Shoes, page 2", items: [{ name: "B" }] }, hasNext: true },
+    { data: { heading: "Shoes, page 3", items: [{ name: "C" }] }, hasNext: false }
+  );
+  const browser = await acquired(mock);
+
+  const data = await browser.extract({ heading: "h1", items: { selector: ".item", items: { name: ".name" } } }, { next: "a.next" });
+  assert.deepEqual(data, { heading: "Shoes", items: [{ name: "A" }, { name: "B" }, { name: "C" }] });
+  assert.deepEqual(mock.calls.map((c) => c.action), [
+    "evaluate", "click", "wait_for_network_idle",
+    "evaluate", "click", "wait_for_network_idle",
+    "evaluate"
+  ]);
+});
+
+test("stops when the next page is unchanged or maxPages is reached", async () => {
+  const mock = new MockTransport();
+  const same = { data: [{ name: "A" }], hasNext: true };
+  pages(mock, same, same);
+  const browser = await acquired(mock);
+
+  assert.deepEqual(await browser.extract({ selector: ".item", items: { name: ".name" } }, { next: "a.next" }), [{ name: "A" }]);
+
+  pages(mock, { data: [1], hasNext: true }, { data: [2], hasNext: true }, { data: [3], hasNext: true });
+  mock.calls.length = 0;
+  const data = await browser.extract({ selector: ".item", items: {} }, { next: "a.next", maxPages: 2, waitFor: ".item" });
+  assert.deepEqual(data, [1, 2]);
+  assert.equal(mock.calls.filter((c) => c.action === "evaluate").length, 2);
+  assert.ok(mock.calls.some((c) => c.action === "wait_for_element"));
+});
+
+test("writes the output file and rejects an unknown extension before reading any page", async () => {
+  const mock = new MockTransport();
+  const store = new MemoryArtifactStore();
+  const browser = await acquired(mock, { artifactStore: store });
+
+  await assert.rejects(
+    browser.extract({ title: "h1" }, { output: "data.xlsx" }),
+    (e) => e instanceof BrowserError && /\.csv, \.jsonl or \.json/.test(e.message)
+  );
+  assert.equal(mock.calls.length, 0);
+
+  pages(mock, { data: [{ name: "A, B", price: 3 }], hasNext: false });
+  await browser.extract({ selector: ".item", items: { name: ".name", price: { selector: ".price", type: "number" } } }, { output: "items.csv" });
+  const key = store.keys().find((k) => k.endsWith("/items.csv"));
+  assert.equal(store.get(key).toString(), 'name,price\r\n"A, B",3\r\n');
+});
@@ -0,0 +1,102 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { FleetInspector, LEASE_PREFIX, REDIS_PREFIX, RedisTransportError, WORKERS_SET } = require('../dist');
+
+// The read commands FleetInspector sends, over plain maps
+class FakeRedis {
+  constructor({ sets = {}, hashes = {}, lists = {}, keys = [] } = {}) {
+    this.sets = new Map(Object.entries(sets).map(([k, v]) => [k, new Set(v)]));
+    this.hashes = new Map(Object.entries(hashes));
+    this.lists = new Map(Object.entries(lists));
+    this.keys = new Set(keys);
+  }
+
+  async smembers(key) {
+    return [...(this.sets.get(key) ?? [])];
+  }
+
+  async scan(_cursor, _match, pattern) {
+    const regex = new RegExp(`^${pattern.split("*").map((p) => p.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`);
+    const all = [...this.sets.keys(), ...this.hashes.keys(), ...this.lists.keys(), ...this.keys];
+    return ["0", all.filter((k) => regex.test(k))];
+  }
+
+  async scard(key) {
+    return this.sets.get(key)?.size ?? 0;
+  }
+
+  async hgetall(key) {
+    return { ...this.hashes.get(key) };
+  }
+
+  async llen(key) {
+    return this.lists.get(key)?.length ?? 0;
+  }
+
+  async exists(key) {
+    return this.keys.has(key) ? 1 : 0;
+  }
+
+  pipeline() {
+    const queued = [];
+    const pipeline = {
+      exec: async () => Promise.all(queued.map((run) => run().then((value) => [null, value], (err) => [err, null])))
+    };
+    for (const name of ["scard", "hgetall", "llen", "exists"]) {
+      pipeline[name] = (...args) => {
+        queued.push(() => this[name](...args));
+        return pipeline;
+      };
+    }
+    return pipeline;
+  }
+}
+
+const key = (worker, rest) => `${REDIS_PREFIX}${worker}:${rest}`;
+
+function fleet() {
+  return new FakeRedis({
+    sets: {
+      [WORKERS_SET]: ["w2", "w1"],
+      [key("w1", "chrome:free")]: ["c1"],
+      [key("w1", "chrome:busy")]: ["c2", "c3"],
+      [key("w1", "firefox:busy")]: ["f1"],
+      [key("w2", "chrome:free")]: ["c1", "c2"]
+    },
+    hashes: { [key("w1", "meta")]: { region: "eu" } },
+    lists: { [key("w1", "tasks")]: ["t1", "t2"] },
+    // c3 and f1 are held by a live process; c2's holder died
+    keys: [`${LEASE_PREFIX}w1:chrome:c3`, `${LEASE_PREFIX}w1:firefox:f1`]
+  });
+}
+
+test("staleBrowsers lists busy browsers whose lease has lapsed", async () => {
+  const inspector = new FleetInspector({ redis: fleet() });
+  assert.deepEqual(await inspector.staleBrowsers(), [{ worker: "w1", browser_type: "chrome", browser_id: "c2" }]);
+});
+
+test("snapshot sums capacity per browser type across workers", async () => {
+  const inspector = new FleetInspector({ redis: fleet() });
+  const snapshot = await inspector.snapshot();
+
+  assert.deepEqual(snapshot.workers.map((w) => w.name), ["w1", "w2"]);
+  const [w1] = snapshot.workers;
+  assert.deepEqual(w1.labels, { region: "eu" });
+  assert.equal(w1.queue_depth, 2);
+  assert.deepEqual(w1.browsers, [
+    { browser_type: "chrome", free: 1, busy: 2 },
+    { browser_type: "firefox", free: 0, busy: 1 }
+  ]);
+  assert.deepEqual(snapshot.totals, { chrome: { free: 3, busy: 2 }, firefox: { free: 0, busy: 1 } });
+  assert.equal(snapshot.stale.length, 1);
+});
+
+test("Redis failures surface as RedisTransportError", async () => {
+  const redis = fleet();
+  redis.smembers = async () => {
+    throw new Error("connection reset");
+  };
+  const inspector = new FleetInspector({ redis });
+  await assert.rejects(inspector.staleBrowsers(), (e) => e instanceof RedisTransportError && /connection reset/.test(e.message));
+});
@@ -0,0 +1,84 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const { MockTransport, runJobs } = require('../dist');
+
+async function collect(iterator) {
+  const results = [];
+  for await (const result of iterator) results.push(result);
+  return results.sort((a, b) => a.index - b.index);
+}
+
+test("retries a failing input on a fresh browser", async () => {
+  const mock = new MockTransport({ workers: { w1: { browsers: { chrome: 2 } } } });
+  const seen = [];
+
+  const results = await collect(runJobs(["a", "b", "c"], async (browser, input, job) => {
+    seen.push([input, job.attempt, browser.session.browser_id]);
+    if (input === "b" && job.attempt === 1) throw new Error("flaky");
+    if (input === "c") throw new Error("always broken");
+    return input.toUpperCase();
+  }, { transport: mock, concurrency: 1, retries: 1 }));
+
+  assert.deepEqual(results.map((r) => [r.key, r.status, r.attempts, r.output]), [
+    ["a", "ok", 1, "A"],
+    ["b", "ok", 2, "B"],
+    ["c", "failed", 2, undefined]
+  ]);
+  assert.equal(results[2].error.message, "always broken");
+  assert.ok(results.every((r) => r.duration_ms >= 0 && r.started_at <= r.finished_at));
+
+  // The successful lane kept its browser; the failed attempt's one was replaced
+  const [first, retried] = seen.filter(([input]) => input === "b");
+  assert.notEqual(first[2], retried[2]);
+  // Three sessions (a and b's first try, b's retry and c's first try, c's retry), all given back
+  assert.equal(mock.calls.filter((c) => c.action === "release_browser").length, 3);
+});
+
+test("resumes from the progress file, re-running only unfinished inputs", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "isoautomate-jobs-"));
+  const resumeFile = path.join(dir, "progress.jsonl");
+  const mock = new MockTransport();
+  const inputs = [{ id: 1 }, { id: 2 }, { id: 3 }];
+  let failing = true;
+  const runs = [];
+  const handler = async (_browser, input) => {
+    runs.push(input.id);
+    if (input.id === 2 && failing) throw new Error("down");
+    return { id: input.id, title: `Item ${input.id}` };
+  };
+
+  try {
+    const first = await collect(runJobs(inputs, handler, { transport: mock, retries: 0, resumeFile, key: (i) => String(i.id) }));
+    assert.deepEqual(first.map((r) => r.status), ["ok", "failed", "ok"]);
+    assert.equal(fs.readFileSync(resumeFile, "utf-8").trim().split("\n").length, 3);
+
+    failing = false;
+    runs.length = 0;
+    const second = await collect(runJobs(inputs, handler, { transport: mock, retries: 0, resumeFile, key: (i) => String(i.id) }));
+    assert.deepEqual(second.map((r) => r.status), ["skipped", "ok", "skipped"]);
+    assert.deepEqual(second[0].output, { id: 1, title: "Item 1" });
+    assert.deepEqual(runs, [2]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("breaking out of the loop stops new jobs and releases the browsers", async () => {
+  const mock = new MockTransport();
+  async function* inputs() {
+    for (let i = 0; i < 100; i++) yield `url-${i}`;
+  }
+  let started = 0;
+
+  for await (const result of runJobs(inputs(), async () => ++started, { transport: mock, concurrency: 2 })) {
+    if (result.index >= 3) break;
+  }
+
+  assert.ok(started < 10);
+  const acquired = new Set(mock.calls.map((c) => c.browser_id));
+  assert.equal(mock.calls.filter((c) => c.action === "release_browser").length, acquired.size);
+});
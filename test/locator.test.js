@@ -0,0 +1,46 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { BrowserClient, BrowserError, MockTransport } = require('../dist');
+
+async function acquired(mock) {
+  const browser = new BrowserClient({ transport: mock });
+  await browser.acquire();
+  return browser;
+}
+
+test("nth on an XPath locator works for every action", async () => {
+  const mock = new MockTransport();
+  mock.respond("get_text", { status: "ok", text: "Second" });
+  const browser = await acquired(mock);
+  const row = browser.locator("//ul[@id='results']/li").nth(2);
+
+  assert.equal(row.selector, "(//ul[@id='results']/li)[2]");
+  assert.equal(await row.text(), "Second");
+  await row.click();
+  await row.locator(".//a").hover();
+  assert.deepEqual(mock.calls.map((c) => [c.action, c.args]), [
+    ["get_text", { selector: "(//ul[@id='results']/li)[2]" }],
+    ["click_nth_element", { selector: "//ul[@id='results']/li", number: 2 }],
+    ["gui_hover_element", { selector: "(//ul[@id='results']/li)[2]//a" }]
+  ]);
+});
+
+test("nth past the first match is rejected on a CSS locator when it is built", async () => {
+  const browser = await acquired(new MockTransport());
+  const buttons = browser.locator("button.buy");
+
+  assert.throws(() => buttons.nth(2), (e) => e instanceof BrowserError && /XPath/.test(e.message));
+  assert.throws(() => buttons.within(".card").nth(3), BrowserError);
+  // The first match is what every action uses anyway
+  assert.equal(buttons.first().selector, "button.buy");
+  assert.equal(buttons.within(".card").nth(1).selector, ".card button.buy");
+});
+
+test("byText and within compose CSS and XPath but never mix them", async () => {
+  const browser = await acquired(new MockTransport());
+
+  assert.equal(browser.locator("button").byText("Buy").within(".card").selector, '.card button:contains("Buy")');
+  assert.equal(browser.locator("//button").byText(`Say "hi"`).within("//form").selector, `//form//button[contains(., 'Say "hi"')]`);
+  assert.throws(() => browser.locator("//button").within(".card").selector, /mix of CSS and XPath/);
+});
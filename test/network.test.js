@@ -0,0 +1,70 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { BrowserClient, MemoryArtifactStore, MockTransport } = require('../dist');
+
+// A worker whose page hook reports `captured` when the capture stops
+function worker(captured = []) {
+  const mock = new MockTransport();
+  let scripts = 0;
+  mock.respond("execute_cdp_cmd", ({ cmd, params }) => {
+    if (cmd === "Page.addScriptToEvaluateOnNewDocument") return { status: "ok", result: { identifier: String(++scripts) } };
+    if (cmd === "Runtime.evaluate" && params.expression.includes("stopHar()")) {
+      return { status: "ok", result: { result: { value: JSON.stringify(captured) } } };
+    }
+    return { status: "ok", result: { result: {} } };
+  });
+  return mock;
+}
+
+function cdp(mock) {
+  return mock.calls.filter((c) => c.action === "execute_cdp_cmd").map((c) => c.args);
+}
+
+test("route registers the compiled handler for new documents and the current one", async () => {
+  const mock = worker();
+  const browser = new BrowserClient({ transport: mock });
+  await browser.acquire();
+
+  await browser.network.route("*/api/cart*", { fulfill: { json: { items: [] } } });
+  const [registered, current] = cdp(mock);
+  assert.equal(registered.cmd, "Page.addScriptToEvaluateOnNewDocument");
+  assert.equal(current.cmd, "Runtime.evaluate");
+  const spec = JSON.parse(registered.params.source.match(/routes\.push\((.*)\);$/)[1]);
+  assert.deepEqual(spec.fulfill, { status: 200, statusText: "", headers: { "content-type": "application/json" }, body: '{"items":[]}' });
+  assert.ok(new RegExp(spec.source, spec.flags).test("https://shop.test/api/cart?id=1"));
+
+  mock.calls.length = 0;
+  await browser.network.unroute("*/api/cart*");
+  assert.deepEqual(cdp(mock)[0], { cmd: "Page.removeScriptToEvaluateOnNewDocument", params: { identifier: "1" } });
+});
+
+test("stopHar marks resource entries as synthesized from Resource Timing", async () => {
+  const mock = worker([
+    {
+      started: "2026-01-01T00:00:01.000Z", type: "fetch", method: "POST", url: "https://shop.test/api/cart?id=1",
+      requestHeaders: { "content-type": "application/json" }, postData: "{}",
+      status: 201, statusText: "Created", responseHeaders: { "content-type": "application/json" }, body: "{\"ok\":true}", time: 12
+    },
+    {
+      started: "2026-01-01T00:00:00.000Z", type: "img", method: "GET", url: "https://shop.test/logo.png",
+      status: 200, time: 5, size: 1200, timings: { dns: 0, connect: 0, ssl: -1, wait: 3, receive: 2 }
+    }
+  ]);
+  const store = new MemoryArtifactStore();
+  const browser = new BrowserClient({ transport: mock, artifactStore: store });
+  await browser.acquire();
+
+  await browser.network.startHar();
+  const { path, har } = await browser.network.stopHar("shop.har");
+  assert.match(path, /shop\.har$/);
+
+  const [image, call] = har.log.entries;
+  assert.equal(image.request.url, "https://shop.test/logo.png");
+  assert.deepEqual(image.request.headers, []);
+  assert.match(image.comment, /Resource Timing/);
+  assert.equal(call.request.method, "POST");
+  assert.deepEqual(call.request.queryString, [{ name: "id", value: "1" }]);
+  assert.equal(call.response.content.text, "{\"ok\":true}");
+  assert.equal(call.comment, undefined);
+});
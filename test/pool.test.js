@@ -0,0 +1,74 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { BrowserError, BrowserPool, MockTransport, NoBrowsersAvailableError } = require('../dist');
+
+test("acquire waits for a slot once maxConcurrency browsers are held", async () => {
+  const mock = new MockTransport();
+  const pool = new BrowserPool({ transport: mock, maxConcurrency: 2 });
+
+  const first = await pool.acquire();
+  const second = await pool.acquire();
+  const third = pool.acquire({ timeout: 5 });
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(pool.size, 2);
+  assert.equal(pool.pending, 1);
+
+  await first.release();
+  const handle = await third;
+  assert.equal(pool.size, 2);
+  assert.equal(pool.pending, 0);
+
+  await assert.rejects(pool.acquire({ timeout: 0.05 }), NoBrowsersAvailableError);
+  await Promise.all([second.release(), handle.release()]);
+  assert.equal(pool.size, 0);
+  await pool.close();
+});
+
+test("a handle cannot acquire a second browser behind the pool's back", async () => {
+  const mock = new MockTransport();
+  const pool = new BrowserPool({ transport: mock, maxConcurrency: 1 });
+
+  const handle = await pool.acquire();
+  await assert.rejects(handle.acquire(), (e) => e instanceof BrowserError && /pool\.acquire\(\)/.test(e.message));
+  await handle.release();
+  await assert.rejects(handle.acquire(), BrowserError);
+  assert.equal(mock.calls.filter((c) => c.action === "release_browser").length, 1);
+  await pool.close();
+});
+
+test("close releases every handle even when one release fails, and rejects waiters", async () => {
+  const mock = new MockTransport();
+  const pool = new BrowserPool({ transport: mock, maxConcurrency: 2, throwOnError: true });
+
+  const [a, b] = [await pool.acquire({ video: true }), await pool.acquire()];
+  mock.respond("stop_video", { status: "error", error: "encoder crashed" });
+  const waiting = pool.acquire({ timeout: 5 });
+
+  await pool.close();
+  await assert.rejects(waiting, /pool is closed/);
+  assert.equal(a.session, null);
+  assert.equal(b.session, null);
+  assert.equal(pool.size, 0);
+  assert.equal(mock.calls.filter((c) => c.action === "release_browser").length, 2);
+  await assert.rejects(pool.acquire(), /pool is closed/);
+});
+
+test("an acquire that completes after close releases its browser and rejects", async () => {
+  const mock = new MockTransport({ workers: { w1: { browsers: { chrome: 1 } } } });
+  const pool = new BrowserPool({ transport: mock });
+
+  // Close the pool while the browser is being claimed
+  let closing;
+  const claim = mock.claim.bind(mock);
+  mock.claim = (...args) => {
+    closing = pool.close();
+    return claim(...args);
+  };
+
+  const late = pool.acquire();
+  await assert.rejects(late, /pool is closed/);
+  await closing;
+  assert.deepEqual(mock.calls.map((c) => c.action), ["release_browser"]);
+  assert.equal(pool.size, 0);
+});
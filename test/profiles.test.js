@@ -0,0 +1,114 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { MockTransport, ProfileLockedError, ProfileManager, RedisTransportError } = require('../dist');
+
+// Just the commands ProfileManager sends, kept in memory
+class FakeRedis {
+  constructor() {
+    this.hashes = new Map();
+    this.keys = new Map();
+    this.failHset = false;
+  }
+
+  _hash(key) {
+    if (!this.hashes.has(key)) this.hashes.set(key, new Map());
+    return this.hashes.get(key);
+  }
+
+  async hsetnx(key, field, value) {
+    const hash = this._hash(key);
+    if (hash.has(field)) return 0;
+    hash.set(field, value);
+    return 1;
+  }
+
+  async hset(key, field, value) {
+    if (this.failHset) throw new Error("READONLY You can't write against a read only replica.");
+    this._hash(key).set(field, value);
+    return 1;
+  }
+
+  async hget(key, field) {
+    return this._hash(key).get(field) ?? null;
+  }
+
+  async hgetall(key) {
+    return Object.fromEntries(this._hash(key));
+  }
+
+  async hdel(key, field) {
+    return this._hash(key).delete(field) ? 1 : 0;
+  }
+
+  async exists(key) {
+    return this.keys.has(key) ? 1 : 0;
+  }
+
+  async set(key, value, _ex, _ttl, nx) {
+    if (nx === "NX" && this.keys.has(key)) return null;
+    this.keys.set(key, value);
+    return "OK";
+  }
+
+  // UNLOCK_SCRIPT takes (key, token); RENEW_SCRIPT adds the TTL
+  async eval(_script, _numKeys, key, token, ttl) {
+    if (this.keys.get(key) !== token) return 0;
+    if (ttl === undefined) this.keys.delete(key);
+    return 1;
+  }
+
+  async quit() {
+    return "OK";
+  }
+}
+
+function setup() {
+  const redis = new FakeRedis();
+  const mock = new MockTransport({ workers: { w1: { browsers: { chrome: 1 } } } });
+  return { redis, mock, profiles: new ProfileManager({ redis }) };
+}
+
+test("a profile is locked while a session holds it", async () => {
+  const { redis, mock, profiles } = setup();
+  await profiles.create("shop");
+
+  const browser = await profiles.open("shop", { transport: mock });
+  assert.equal(await profiles.isLocked("shop"), true);
+  await assert.rejects(profiles.open("shop", { transport: mock }), ProfileLockedError);
+  await assert.rejects(profiles.delete("shop"), ProfileLockedError);
+
+  await browser.release();
+  assert.equal(await profiles.isLocked("shop"), false);
+  // The worker holding the user data is recorded on first use
+  assert.equal((await profiles.get("shop")).worker, "w1");
+  assert.equal(redis.keys.size, 0);
+});
+
+test("use() releases the browser and the lock even when the callback throws", async () => {
+  const { mock, profiles } = setup();
+  await profiles.create("shop");
+
+  await assert.rejects(profiles.use("shop", async () => {
+    throw new Error("checkout failed");
+  }, { transport: mock }), /checkout failed/);
+
+  assert.equal(await profiles.isLocked("shop"), false);
+  assert.equal(mock.calls.filter((c) => c.action === "release_browser").length, 1);
+});
+
+test("open releases the acquired browser and the lock when recording the profile fails", async () => {
+  const { redis, mock, profiles } = setup();
+  await profiles.create("shop");
+  redis.failHset = true;
+
+  await assert.rejects(profiles.open("shop", { transport: mock }), RedisTransportError);
+  assert.ok(mock.calls.some((c) => c.action === "release_browser"));
+  assert.equal(await profiles.isLocked("shop"), false);
+
+  // The only browser is free for the next session
+  redis.failHset = false;
+  const browser = await profiles.open("shop", { transport: mock });
+  assert.equal(browser.session.browser_id, "chrome-1");
+  await browser.release();
+});
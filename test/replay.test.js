@@ -0,0 +1,51 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { BrowserClient, ReplayMismatchError, ReplayTransport } = require('../dist');
+
+const fixture = {
+  version: 1,
+  recorded_at: "2024-03-01T10:15:00.000Z",
+  sessions: [{ worker: "w1", browser_type: "chrome", browser_id: "b1" }],
+  tasks: [
+    { action: "open_url", args: { url: "https://example.com" }, result: { status: "ok" } },
+    { action: "get_title", args: {}, result: { status: "ok", title: "Example Domain" } }
+  ]
+};
+
+test("replays recorded results in order", async () => {
+  const transport = new ReplayTransport(fixture);
+  const browser = new BrowserClient({ transport });
+  assert.deepEqual(await browser.acquire(), { status: "ok", browser_id: "b1", worker: "w1" });
+
+  await browser.open_url("https://example.com");
+  assert.equal((await browser.get_title()).title, "Example Domain");
+  assert.equal(transport.remaining, 0);
+});
+
+test("raises ReplayMismatchError for a different action, even in lenient mode", async () => {
+  const browser = new BrowserClient({ transport: new ReplayTransport(fixture) });
+  await browser.acquire();
+
+  await assert.rejects(browser.get_title(), (e) => {
+    assert.ok(e instanceof ReplayMismatchError);
+    assert.match(e.message, /expected 'open_url', got 'get_title'/);
+    return true;
+  });
+});
+
+test("compares arguments unless matchArgs is off", async () => {
+  const strict = new BrowserClient({ transport: new ReplayTransport(fixture) });
+  await strict.acquire();
+  await assert.rejects(strict.open_url("https://example.org"), /expected args/);
+
+  const loose = new BrowserClient({ transport: new ReplayTransport(fixture, { matchArgs: false }) });
+  await loose.acquire();
+  assert.equal((await loose.open_url("https://example.org")).status, "ok");
+});
+
+test("a task beyond the recording is a mismatch", async () => {
+  const browser = new BrowserClient({ transport: new ReplayTransport({ ...fixture, tasks: [] }) });
+  await browser.acquire();
+  await assert.rejects(browser.get_current_url(), /the recording has only 0/);
+});
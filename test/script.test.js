@@ -0,0 +1,170 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { BrowserClient, MemoryArtifactStore, MockTransport, ScriptValidationError, parseScript, runScript, validateScript } = require('../dist');
+
+async function browserOn(mock) {
+  const browser = new BrowserClient({ transport: mock });
+  await browser.acquire();
+  return browser;
+}
+
+test("parseScript accepts YAML and a bare list of steps", () => {
+  const script = parseScript(`
+- action: open_url
+  args: { url: "https://example.com" }
+- action: get_title
+`);
+  assert.equal(script.steps.length, 2);
+  assert.equal(script.steps[0].args.url, "https://example.com");
+});
+
+test("validation reports every problem before a browser is acquired", () => {
+  assert.throws(() => validateScript({
+    timeout: -1,
+    steps: [
+      { action: "open_url" },
+      { action: "fly_to_moon" },
+      { loop: { times: true }, steps: [] },
+      { action: "get_text", args: { selector: "${steps.later.text}" } },
+      { id: "later", action: "get_title" }
+    ]
+  }), (e) => {
+    assert.ok(e instanceof ScriptValidationError);
+    assert.ok(e.problems.some((p) => /timeout/.test(p)));
+    assert.ok(e.problems.some((p) => /fly_to_moon/.test(p)));
+    assert.ok(e.problems.some((p) => /times/.test(p)));
+    assert.ok(e.problems.some((p) => /later/.test(p)));
+    return true;
+  });
+});
+
+test("validation rejects names inherited from Object.prototype", () => {
+  assert.throws(
+    () => validateScript({ steps: [{ action: "constructor" }, { action: "toString" }, { action: "__proto__" }] }),
+    (e) => {
+      assert.ok(e instanceof ScriptValidationError);
+      assert.deepEqual(e.problems, [
+        "Step 1: unknown action 'constructor'",
+        "Step 2: unknown action 'toString'",
+        "Step 3: unknown action '__proto__'"
+      ]);
+      return true;
+    }
+  );
+});
+
+test("validation rejects a loop variable that shadows a namespace or a literal non-numeric count", () => {
+  assert.throws(
+    () => validateScript({
+      steps: [
+        { loop: { over: [1], as: "vars" }, steps: [] },
+        { loop: { times: "many" }, steps: [] },
+        { loop: { times: "${vars.n}" }, steps: [] }
+      ]
+    }),
+    (e) => {
+      assert.equal(e.problems.length, 2);
+      assert.match(e.problems[0], /^Step 1: loop 'as'/);
+      assert.equal(e.problems[1], "Step 2: loop 'times' must be a number");
+      return true;
+    }
+  );
+});
+
+test("a loop whose interpolated count is not a number fails instead of running 0 times", async () => {
+  const mock = new MockTransport();
+  const browser = await browserOn(mock);
+
+  const report = await runScript({
+    vars: { n: "abc" },
+    steps: [
+      { loop: { times: "${vars.n}" }, steps: [{ action: "reload" }] },
+      { action: "get_title" }
+    ]
+  }, { browser });
+
+  assert.equal(report.status, "error");
+  assert.deepEqual(report.steps.map((s) => [s.action, s.status]), [["loop", "error"]]);
+  assert.match(report.steps[0].error, /times/);
+  assert.ok(!mock.calls.some((c) => c.action === "reload" || c.action === "get_title"));
+});
+
+test("interpolates env, vars, step results and loop variables", async () => {
+  const mock = new MockTransport();
+  mock.respond("get_title", { status: "ok", title: "Shop" });
+  const browser = await browserOn(mock);
+
+  const report = await runScript({
+    vars: { base: "https://${env.HOST}", count: 2 },
+    steps: [
+      { action: "open_url", args: { url: "${vars.base}/start" } },
+      { id: "page", action: "get_title" },
+      { action: "type", args: { selector: "#q", text: "${steps.page.title} deals" } },
+      { loop: { over: ["#a", "#b"], as: "tab" }, steps: [{ action: "click", args: { selector: "${tab}" } }] },
+      { if: "${vars.missing}", steps: [{ action: "reload" }], else: [{ action: "scroll_down", args: { amount: "${vars.count}" } }] }
+    ]
+  }, { browser, env: { HOST: "example.com" } });
+
+  assert.equal(report.status, "ok");
+  assert.deepEqual(mock.calls.map((c) => [c.action, c.args]), [
+    ["open_url", { url: "https://example.com/start" }],
+    ["get_title", {}],
+    ["type", { selector: "#q", text: "Shop deals" }],
+    ["click", { selector: "#a" }],
+    ["click", { selector: "#b" }],
+    // A value that is exactly one placeholder keeps its type
+    ["scroll_down", { amount: 2 }]
+  ]);
+});
+
+test("a failed step stops the run unless continueOnError is set", async () => {
+  const mock = new MockTransport();
+  mock.respond("click", { status: "error", error: "Element not found: #x" });
+  const browser = await browserOn(mock);
+
+  const report = await runScript({
+    steps: [
+      { action: "click", args: { selector: "#x" }, continueOnError: true },
+      { action: "click", args: { selector: "#x" } },
+      { action: "get_title" }
+    ]
+  }, { browser });
+
+  assert.equal(report.status, "error");
+  assert.deepEqual(report.steps.map((s) => s.status), ["error", "error"]);
+  assert.ok(!mock.calls.some((c) => c.action === "get_title"));
+});
+
+test("assertion steps save the failure screenshot and keep base64 out of the report", async () => {
+  const mock = new MockTransport();
+  mock.respond("assert_text", { status: "fail", error: "Text 'Welcome' not found", screenshot_base64: "AAAA" });
+  const browser = new BrowserClient({ transport: mock, artifactStore: new MemoryArtifactStore() });
+  await browser.acquire();
+
+  const report = await runScript({ steps: [{ action: "assert_text", args: { text: "Welcome" } }] }, { browser });
+  const [step] = report.steps;
+  assert.equal(step.status, "fail");
+  assert.match(step.result.screenshot_path, /FAIL_assert_text/);
+  assert.ok(!JSON.stringify(report).includes("AAAA"));
+});
+
+test("screenshot data never reaches the report", async () => {
+  const mock = new MockTransport();
+  mock.respond("save_screenshot", { status: "ok", image_base64: Buffer.from("png").toString("base64") });
+  const browser = new BrowserClient({ transport: mock, artifactStore: new MemoryArtifactStore() });
+  await browser.acquire();
+
+  const report = await runScript({
+    steps: [
+      { action: "save_screenshot", args: { name: "raw.png" } },
+      { action: "screenshot", args: { filename: "page.png" } }
+    ]
+  }, { browser });
+
+  assert.equal(report.status, "ok");
+  assert.deepEqual(report.steps[0].result, undefined);
+  assert.match(report.steps[1].result.path, /page\.png$/);
+  const json = JSON.stringify(report);
+  assert.ok(!json.includes("base64") && !json.includes(Buffer.from("png").toString("base64")));
+});
@@ -0,0 +1,23 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+
+const { BrowserClient, MockTransport, SessionExpiredError } = require('../dist');
+
+test("a serialized session attaches in a new client until it is released", async () => {
+  const mock = new MockTransport();
+  const first = new BrowserClient({ transport: mock });
+  await first.acquire({ video: true });
+  const token = first.serializeSession({ detach: true });
+  assert.equal(first.session, null);
+
+  const second = await BrowserClient.attach(token, { transport: mock });
+  assert.equal(second.session.video, true);
+  assert.equal(second.run_id, first.run_id);
+  await second.get_title();
+  // The video flag was already sent by the first client
+  assert.equal(mock.calls.at(-1).video, undefined);
+
+  await second.release();
+  await assert.rejects(BrowserClient.attach(token, { transport: mock }), SessionExpiredError);
+  await assert.rejects(BrowserClient.attach("not-a-token", { transport: mock }), /Invalid session token/);
+});
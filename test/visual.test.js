@@ -0,0 +1,116 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const zlib = require('zlib');
+
+const { BrowserClient, MemoryArtifactStore, MockTransport, VisualMismatchError, decodePng, diffImages, encodePng, maskImage } = require('../dist');
+
+function image(width, height, rgba = [255, 255, 255, 255]) {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) data.set(rgba, i);
+  return { width, height, data };
+}
+
+function setPixel(img, x, y, rgba) {
+  img.data.set(rgba, (y * img.width + x) * 4);
+}
+
+test("encodePng output decodes back to the same pixels", () => {
+  const original = image(7, 5, [10, 20, 30, 255]);
+  setPixel(original, 3, 2, [200, 0, 100, 128]);
+  setPixel(original, 6, 4, [0, 255, 0, 0]);
+
+  const png = encodePng(original);
+  assert.deepEqual([...png.subarray(1, 4)].map((c) => String.fromCharCode(c)).join(""), "PNG");
+
+  const decoded = decodePng(png);
+  assert.equal(decoded.width, 7);
+  assert.equal(decoded.height, 5);
+  assert.ok(decoded.data.equals(original.data));
+});
+
+test("decodePng expands RGB images and undoes scanline filters", () => {
+  // 2x2 RGB with the Sub filter on row 0 and Up on row 1
+  const raw = Buffer.from([1, 10, 20, 30, 5, 5, 5, 2, 1, 1, 1, 2, 2, 2]);
+  const chunk = (type, data) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    // The decoder does not verify CRCs, so zeros do
+    return Buffer.concat([length, Buffer.from(type), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(2, 0);
+  header.writeUInt32BE(2, 4);
+  header[8] = 8;
+  header[9] = 2;
+  const png = Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", zlib.deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0))
+  ]);
+
+  const decoded = decodePng(png);
+  assert.deepEqual([...decoded.data], [
+    10, 20, 30, 255, 15, 25, 35, 255,
+    11, 21, 31, 255, 17, 27, 37, 255
+  ]);
+});
+
+test("diffImages counts changed pixels and ignores masked ones", () => {
+  const expected = image(10, 10);
+  const actual = image(10, 10);
+  setPixel(actual, 1, 1, [255, 0, 0, 255]);
+  setPixel(actual, 8, 8, [0, 0, 0, 255]);
+  // Below the default threshold
+  setPixel(actual, 5, 5, [254, 254, 254, 255]);
+
+  const diff = diffImages(expected, actual);
+  assert.equal(diff.diffPixels, 2);
+  assert.equal(diff.diffRatio, 0.02);
+  assert.equal(diff.diff.width, 10);
+
+  const mask = [{ x: 7, y: 7, width: 3, height: 3 }];
+  maskImage(expected, mask);
+  maskImage(actual, mask);
+  assert.equal(diffImages(expected, actual, 0.1, mask).diffPixels, 1);
+});
+
+test("diffImages rejects images of different sizes", () => {
+  assert.throws(() => diffImages(image(2, 2), image(2, 3)), /Image sizes differ/);
+});
+
+test("a mismatch reports the baseline file, whatever made the comparison fail", async (t) => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "baselines-"));
+  t.after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const baseline = path.join(dir, "home.png");
+  fs.writeFileSync(baseline, encodePng(image(4, 4)));
+
+  const mock = new MockTransport();
+  const browser = new BrowserClient({ transport: mock, artifactStore: new MemoryArtifactStore() });
+  await browser.acquire();
+  const capture = (img) => mock.respondOnce("save_screenshot", { status: "ok", image_base64: encodePng(img).toString("base64") });
+
+  const changed = image(4, 4);
+  setPixel(changed, 1, 1, [0, 0, 0, 255]);
+  capture(changed);
+  await assert.rejects(browser.expectScreenshot("home", { baselineDir: dir }), (e) => {
+    assert.ok(e instanceof VisualMismatchError);
+    assert.equal(e.diff_pixels, 1);
+    assert.equal(e.baseline_path, baseline);
+    assert.match(e.expected_path, /^memory:\/\/.*home-expected\.png$/);
+    assert.match(e.actual_path, /home-actual\.png$/);
+    assert.match(e.screenshot_path, /home-diff\.png$/);
+    return true;
+  });
+
+  capture(image(5, 4));
+  await assert.rejects(browser.expectScreenshot("home", { baselineDir: dir }), (e) => {
+    assert.equal(e.baseline_path, baseline);
+    assert.equal(e.expected_path, undefined);
+    assert.match(e.actual_path, /home-actual\.png$/);
+    return true;
+  });
+});